@@ -0,0 +1,175 @@
+#!/usr/bin/env node
+// Converts Keras .h5 weight files into TF.js weight manifests + binary shards.
+//
+//   node scripts/convert-keras-weights.mjs                      # all bundled models
+//   node scripts/convert-keras-weights.mjs <architecture.json> <weights.h5> [outDir]
+//
+// Reads both the Keras 3 layout (layers/<name>/vars/<i>, written by
+// model.save_weights("*.weights.h5")) and the legacy Keras 2 layout
+// (model_weights/<name>/..., written by model.save("*.h5")). The topology
+// itself is converted at runtime by src/utils/keras3Adapter.ts.
+import fs from 'node:fs';
+import path from 'node:path';
+import h5wasm from 'h5wasm/node';
+
+const SHARD_BYTES = 4 * 1024 * 1024;
+
+const BUNDLED_MODELS = [
+  ['public/models/facial_emotion/model_facial_architecture.json', 'public/models/facial_emotion/facial.weights.h5'],
+  ['public/models/keyfacial/model_keyfacial_architecture.json', 'public/models/keyfacial/best_model.h5'],
+  ['public/models/speech_emotion/model_mlp_architecture.json', 'public/models/speech_emotion/mlp_model.weights.h5'],
+];
+
+// Sublayer groups Keras 3 writes for MultiHeadAttention, and the weight
+// prefixes the runtime MultiHeadAttention layer uses
+const ATTENTION_SUBLAYERS = [
+  ['query_dense', 'query'],
+  ['key_dense', 'key'],
+  ['value_dense', 'value'],
+  ['output_dense', 'attention_output'],
+];
+
+function variableNames(layer) {
+  const { class_name: className, config } = layer;
+  const bias = config.use_bias !== false ? ['bias'] : [];
+
+  switch (className) {
+    case 'Dense':
+    case 'Conv1D':
+    case 'Conv2D':
+    case 'Conv2DTranspose':
+      return ['kernel', ...bias];
+    case 'DepthwiseConv2D':
+      return ['depthwise_kernel', ...bias];
+    case 'BatchNormalization':
+      return [
+        ...(config.scale !== false ? ['gamma'] : []),
+        ...(config.center !== false ? ['beta'] : []),
+        'moving_mean',
+        'moving_variance',
+      ];
+    case 'LayerNormalization':
+      return [...(config.scale !== false ? ['gamma'] : []), ...(config.center !== false ? ['beta'] : [])];
+    default:
+      return [];
+  }
+}
+
+function readDataset(dataset) {
+  const values = dataset.value;
+  const data = values instanceof Float32Array ? values : Float32Array.from(values, Number);
+  return { shape: dataset.shape ?? [], data };
+}
+
+function readVars(group, names, layerName) {
+  const vars = group?.get('vars');
+  const keys = vars ? [...vars.keys()].sort((a, b) => Number(a) - Number(b)) : [];
+  if (keys.length !== names.length) {
+    throw new Error(`Layer ${layerName}: expected ${names.length} variables, found ${keys.length}`);
+  }
+  return keys.map((key, i) => ({ name: `${layerName}/${names[i]}`, ...readDataset(vars.get(key)) }));
+}
+
+function readKeras3Weights(file, layers) {
+  const root = file.get('layers') ?? file.get('_layer_checkpoint_dependencies');
+  const weights = [];
+
+  for (const layer of layers) {
+    const name = layer.config.name;
+    const group = root.get(name);
+
+    if (layer.class_name === 'MultiHeadAttention') {
+      const bias = layer.config.use_bias !== false ? ['bias'] : [];
+      for (const [groupName, prefix] of ATTENTION_SUBLAYERS) {
+        weights.push(...readVars(group.get(groupName), ['kernel', ...bias], `${name}/${prefix}`));
+      }
+      continue;
+    }
+
+    const names = variableNames(layer);
+    const stored = group?.get('vars');
+    if (names.length === 0) {
+      if (stored && stored.keys().length > 0) {
+        throw new Error(`Layer ${name} (${layer.class_name}) has weights but no known variable names`);
+      }
+      continue;
+    }
+    weights.push(...readVars(group, names, name));
+  }
+
+  return weights;
+}
+
+function readLegacyWeights(file) {
+  const root = file.get('model_weights');
+  const weights = [];
+
+  for (const layerName of root.attrs.layer_names.value) {
+    const group = root.get(layerName);
+    for (const weightName of group.attrs.weight_names?.value ?? []) {
+      // "dense/kernel:0" -> "dense/kernel"
+      weights.push({ name: weightName.replace(/:\d+$/, ''), ...readDataset(group.get(weightName)) });
+    }
+  }
+
+  return weights;
+}
+
+function writeManifest(weights, outDir, stem) {
+  const specs = weights.map(({ name, shape }) => ({ name, shape, dtype: 'float32' }));
+  const buffers = weights.map(({ data }) => Buffer.from(data.buffer, data.byteOffset, data.byteLength));
+  const total = Buffer.concat(buffers);
+  const shardCount = Math.max(1, Math.ceil(total.length / SHARD_BYTES));
+  const paths = [];
+
+  for (let i = 0; i < shardCount; i++) {
+    const shardName = shardCount === 1 ? `${stem}_weights.bin` : `${stem}_weights.shard${i + 1}of${shardCount}.bin`;
+    fs.writeFileSync(path.join(outDir, shardName), total.subarray(i * SHARD_BYTES, (i + 1) * SHARD_BYTES));
+    paths.push(shardName);
+  }
+
+  const manifestPath = path.join(outDir, `${stem}_weights_manifest.json`);
+  fs.writeFileSync(manifestPath, JSON.stringify([{ paths, weights: specs }], null, 2) + '\n');
+  return { manifestPath, bytes: total.length, shardCount };
+}
+
+async function convert(architecturePath, weightsPath, outDir = path.dirname(weightsPath)) {
+  const architecture = JSON.parse(fs.readFileSync(architecturePath, 'utf8'));
+  const file = new h5wasm.File(weightsPath, 'r');
+
+  try {
+    const keys = file.keys();
+    const weights = keys.includes('model_weights')
+      ? readLegacyWeights(file)
+      : readKeras3Weights(file, architecture.config.layers);
+
+    const stem = path.basename(weightsPath).replace(/(\.weights)?\.h5$/, '');
+    const { manifestPath, bytes, shardCount } = writeManifest(weights, outDir, stem);
+    console.log(`${weightsPath}: ${weights.length} tensors, ${bytes} bytes in ${shardCount} shard(s) -> ${manifestPath}`);
+  } finally {
+    file.close();
+  }
+}
+
+async function main() {
+  await h5wasm.ready;
+  const [architecturePath, weightsPath, outDir] = process.argv.slice(2);
+
+  if (architecturePath && weightsPath) {
+    await convert(architecturePath, weightsPath, outDir);
+    return;
+  }
+
+  for (const [architecture, weights] of BUNDLED_MODELS) {
+    if (!fs.existsSync(weights)) {
+      console.warn(`Skipping ${architecture}: ${weights} not found`);
+      continue;
+    }
+    await convert(architecture, weights);
+  }
+}
+
+main().catch((error) => {
+  console.error(error.message ?? error);
+  process.exit(1);
+});
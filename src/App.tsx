@@ -6,8 +6,15 @@ import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import { useEffect, useState } from "react";
 import { toast } from "@/components/ui/use-toast";
+import { getDemoMode } from "@/hooks/use-demo-mode";
+import { getBackendPreference } from "@/hooks/use-tf-backend";
 import { loadModels, ModelLoadingStatus } from "@/utils/modelLoader";
 import Index from "./pages/Index";
+import Batch from "./pages/Batch";
+import Benchmark from "./pages/Benchmark";
+import History from "./pages/History";
+import HistorySession from "./pages/HistorySession";
+import Models from "./pages/Models";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -15,6 +22,7 @@ const queryClient = new QueryClient();
 const App = () => {
   const [modelStatus, setModelStatus] = useState<ModelLoadingStatus>({
     facialEmotion: false,
+    facialKeypoints: false,
     speechEmotion: false,
     isLoading: true,
     error: null
@@ -23,12 +31,18 @@ const App = () => {
   useEffect(() => {
     const initModels = async () => {
       try {
-        const status = await loadModels();
+        const status = await loadModels(getBackendPreference());
         setModelStatus(status);
         
-        // Only show success message if models loaded successfully
-        // Don't show error messages to avoid confusing users
-        if (status.facialEmotion && status.speechEmotion) {
+        if (status.error) {
+          toast({
+            title: "Running in degraded mode",
+            description: getDemoMode()
+              ? "Some models failed to load. Affected results will be demo placeholders, marked as such."
+              : "Some models failed to load. Results that depend on them will be unavailable.",
+            variant: "destructive",
+          });
+        } else if (status.facialEmotion && status.speechEmotion) {
           toast({
             title: "Ready to analyze emotions",
             description: "You can now capture images and record audio for analysis.",
@@ -36,7 +50,11 @@ const App = () => {
         }
       } catch (error) {
         console.error("Failed to initialize models:", error);
-        // Don't show error toast
+        setModelStatus((prev) => ({
+          ...prev,
+          isLoading: false,
+          error: error instanceof Error ? error.message : String(error),
+        }));
       }
     };
 
@@ -51,6 +69,11 @@ const App = () => {
         <BrowserRouter>
           <Routes>
             <Route path="/" element={<Index />} />
+            <Route path="/batch" element={<Batch />} />
+            <Route path="/benchmark" element={<Benchmark />} />
+            <Route path="/models" element={<Models />} />
+            <Route path="/history" element={<History />} />
+            <Route path="/history/:sessionId" element={<HistorySession />} />
             {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
             <Route path="*" element={<NotFound />} />
           </Routes>
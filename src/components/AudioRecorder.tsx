@@ -1,18 +1,28 @@
 
 import React, { useRef, useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
 import { Progress } from "@/components/ui/progress";
-import { Mic, Square } from "lucide-react";
+import { Mic, Square, Upload } from "lucide-react";
+import { useMediaDrop } from "@/hooks/use-media-drop";
 
 interface AudioRecorderProps {
   isRecording: boolean;
   onRecordingComplete: (blob: Blob) => void;
   recordingTime: number;
+  // Live mode opens the microphone without recording and hands the stream to the caller
+  isLive?: boolean;
+  onLiveStream?: (stream: MediaStream | null) => void;
+  // Offers a file picker and drop target for an existing audio file
+  onUpload?: (file: File) => void;
 }
 
 const AudioRecorder: React.FC<AudioRecorderProps> = ({ 
   isRecording, 
   onRecordingComplete,
-  recordingTime 
+  recordingTime,
+  isLive = false,
+  onLiveStream,
+  onUpload
 }) => {
   const mediaRecorderRef = useRef<MediaRecorder | null>(null);
   const audioChunksRef = useRef<Blob[]>([]);
@@ -20,6 +30,15 @@ const AudioRecorder: React.FC<AudioRecorderProps> = ({
   const audioContextRef = useRef<AudioContext | null>(null);
   const analyserRef = useRef<AnalyserNode | null>(null);
   const animationFrameRef = useRef<number | null>(null);
+  // Latest callback, so a new function identity does not reopen the microphone
+  const onLiveStreamRef = useRef(onLiveStream);
+  onLiveStreamRef.current = onLiveStream;
+  const canUpload = Boolean(onUpload) && !isRecording && !isLive;
+  const { isDragging, dropProps, inputProps, openPicker } = useMediaDrop(
+    "audio",
+    (file) => onUpload?.(file),
+    canUpload
+  );
 
   useEffect(() => {
     if (isRecording) {
@@ -81,6 +100,53 @@ const AudioRecorder: React.FC<AudioRecorderProps> = ({
     }
   };
 
+  useEffect(() => {
+    if (!isLive) return;
+
+    let liveStream: MediaStream | null = null;
+    let cancelled = false;
+
+    const startLive = async () => {
+      try {
+        const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+        if (cancelled) {
+          stream.getTracks().forEach(track => track.stop());
+          return;
+        }
+        liveStream = stream;
+
+        audioContextRef.current = new AudioContext();
+        const source = audioContextRef.current.createMediaStreamSource(stream);
+        analyserRef.current = audioContextRef.current.createAnalyser();
+        analyserRef.current.fftSize = 256;
+        source.connect(analyserRef.current);
+        visualizeAudio();
+
+        onLiveStreamRef.current?.(stream);
+      } catch (error) {
+        console.error("Error opening microphone for live analysis:", error);
+      }
+    };
+
+    startLive();
+
+    return () => {
+      cancelled = true;
+      if (animationFrameRef.current) {
+        cancelAnimationFrame(animationFrameRef.current);
+      }
+      if (audioContextRef.current && audioContextRef.current.state !== 'closed') {
+        audioContextRef.current.close();
+      }
+      analyserRef.current = null;
+      setAudioLevel(0);
+      if (liveStream) {
+        liveStream.getTracks().forEach(track => track.stop());
+        onLiveStreamRef.current?.(null);
+      }
+    };
+  }, [isLive]);
+
   const stopRecording = () => {
     if (mediaRecorderRef.current) {
       mediaRecorderRef.current.stop();
@@ -108,26 +174,46 @@ const AudioRecorder: React.FC<AudioRecorderProps> = ({
 
   return (
     <div className="flex flex-col items-center">
-      <div className="w-full bg-black/10 rounded-lg p-8 flex flex-col items-center">
-        <div className={`w-24 h-24 rounded-full flex items-center justify-center ${isRecording ? 'bg-red-500/20' : 'bg-muted'}`}>
-          <Mic className={`h-10 w-10 ${isRecording ? 'text-red-500 animate-pulse' : 'text-muted-foreground'}`} />
+      <div
+        className={`w-full bg-black/10 rounded-lg p-8 flex flex-col items-center border-2 border-dashed transition-colors ${
+          isDragging ? "border-primary bg-primary/5" : "border-transparent"
+        }`}
+        {...dropProps}
+      >
+        <div className={`w-24 h-24 rounded-full flex items-center justify-center ${isRecording || isLive ? 'bg-red-500/20' : 'bg-muted'}`}>
+          <Mic className={`h-10 w-10 ${isRecording || isLive ? 'text-red-500 animate-pulse' : 'text-muted-foreground'}`} />
         </div>
         
-        {isRecording && (
+        {(isRecording || isLive) && (
           <div className="mt-6 w-full">
             <div className="flex justify-between items-center mb-2">
               <p className="text-sm font-medium">Audio Level</p>
-              <span className="text-xs text-muted-foreground">{recordingTime}s / 10s</span>
+              <span className="text-xs text-muted-foreground">
+                {isLive ? "Live" : `${recordingTime}s / 10s`}
+              </span>
             </div>
             <Progress value={audioLevel} className="h-2" />
           </div>
         )}
         
-        {!isRecording && (
+        {!isRecording && !isLive && (
           <p className="text-sm text-muted-foreground mt-4">
-            Audio will be recorded when you press the Start Recording button
+            {onLiveStream
+              ? "The microphone opens when live analysis starts"
+              : onUpload
+                ? "Audio will be recorded when you press the Start Recording button, or drop an audio file here"
+                : "Audio will be recorded when you press the Start Recording button"}
           </p>
         )}
+
+        {canUpload && (
+          <>
+            <Button onClick={openPicker} variant="outline" size="sm" className="gap-2 mt-4">
+              <Upload className="h-4 w-4" /> Upload Audio
+            </Button>
+            <input {...inputProps} />
+          </>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,106 @@
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Slider } from "@/components/ui/slider";
+import { Play, Square } from "lucide-react";
+import { ANALYSIS_WINDOW_SECONDS, DecodedAudio } from "@/utils/audioFeatures";
+import { encodeWav, sliceAudio } from "@/utils/mediaFiles";
+
+interface AudioTrimmerProps {
+  file: File;
+  decoded: DecodedAudio;
+  // Called with the selected part as a WAV clip, first for the default selection
+  onTrim: (clip: Blob) => void;
+  maxSeconds?: number;
+}
+
+const formatSeconds = (seconds: number) => `${Math.floor(seconds / 60)}:${(seconds % 60).toFixed(1).padStart(4, "0")}`;
+
+// Picks the part of a long audio file to analyze, at most one analysis window long
+const AudioTrimmer: React.FC<AudioTrimmerProps> = ({
+  file,
+  decoded,
+  onTrim,
+  maxSeconds = ANALYSIS_WINDOW_SECONDS
+}) => {
+  const duration = decoded.samples.length / decoded.sampleRate;
+  const [selection, setSelection] = useState<[number, number]>([0, Math.min(maxSeconds, duration)]);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const audioRef = useRef<HTMLAudioElement | null>(null);
+  const url = useMemo(() => URL.createObjectURL(file), [file]);
+  // Latest callback, so a new function identity does not re-encode the clip
+  const onTrimRef = useRef(onTrim);
+  onTrimRef.current = onTrim;
+
+  useEffect(() => () => URL.revokeObjectURL(url), [url]);
+
+  const trim = ([start, end]: [number, number]) => onTrimRef.current(encodeWav(sliceAudio(decoded, start, end)));
+
+  // A new file starts with the first window selected
+  useEffect(() => {
+    const initial: [number, number] = [0, Math.min(maxSeconds, duration)];
+    setSelection(initial);
+    onTrimRef.current(encodeWav(sliceAudio(decoded, initial[0], initial[1])));
+  }, [decoded, duration, maxSeconds]);
+
+  // Dragging one handle past the window length pulls the other along. Radix
+  // derives `values` from the rendered selection, so comparing against it
+  // tells which handle moved, also when change and commit fire in one tick.
+  const clamp = ([start, end]: number[]): [number, number] => {
+    if (end - start <= maxSeconds) return [start, end];
+    return start !== selection[0] ? [start, start + maxSeconds] : [end - maxSeconds, end];
+  };
+
+  const togglePlayback = () => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    if (isPlaying) {
+      audio.pause();
+      return;
+    }
+    audio.currentTime = selection[0];
+    audio.play().catch((error) => console.error("Playing the selection failed:", error));
+  };
+
+  const handleTimeUpdate = () => {
+    const audio = audioRef.current;
+    if (audio && audio.currentTime >= selection[1]) audio.pause();
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between text-sm">
+        <span className="font-medium truncate">{file.name}</span>
+        <span className="text-xs text-muted-foreground shrink-0 ml-2">{formatSeconds(duration)} total</span>
+      </div>
+      <Slider
+        value={selection}
+        min={0}
+        max={duration}
+        step={0.1}
+        minStepsBetweenThumbs={5}
+        onValueChange={(values) => setSelection(clamp(values))}
+        onValueCommit={(values) => trim(clamp(values))}
+      />
+      <div className="flex items-center justify-between text-xs text-muted-foreground">
+        <span>
+          {formatSeconds(selection[0])} – {formatSeconds(selection[1])}
+        </span>
+        <span>{(selection[1] - selection[0]).toFixed(1)}s of at most {maxSeconds}s is analyzed</span>
+      </div>
+      <Button onClick={togglePlayback} variant="outline" size="sm" className="gap-2">
+        {isPlaying ? <Square className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+        {isPlaying ? "Stop" : "Play Selection"}
+      </Button>
+      <audio
+        ref={audioRef}
+        src={url}
+        onPlay={() => setIsPlaying(true)}
+        onPause={() => setIsPlaying(false)}
+        onTimeUpdate={handleTimeUpdate}
+        className="hidden"
+      />
+    </div>
+  );
+};
+
+export default AudioTrimmer;
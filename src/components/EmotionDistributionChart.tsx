@@ -0,0 +1,88 @@
+import React from "react";
+import { Bar, BarChart, Cell, LabelList, XAxis, YAxis } from "recharts";
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart";
+import { CANONICAL_EMOTIONS, Emotion, EMOTION_CHART_CONFIG, UnmappedLabel } from "@/utils/emotionLabels";
+
+interface EmotionDistributionChartProps {
+  distribution: Record<Emotion, number>;
+  // Model classes with no canonical equivalent still take probability mass
+  unmapped?: UnmappedLabel[];
+  className?: string;
+}
+
+const chartConfig = {
+  ...EMOTION_CHART_CONFIG,
+  probability: { label: "Probability" },
+} satisfies ChartConfig;
+
+const UNMAPPED_COLOR = "hsl(var(--muted-foreground))";
+
+// Ranked horizontal bars, so close runner-up emotions are easy to spot
+const EmotionDistributionChart: React.FC<EmotionDistributionChartProps> = ({
+  distribution,
+  unmapped = [],
+  className,
+}) => {
+  const rows = [
+    ...CANONICAL_EMOTIONS.map((emotion) => ({
+      key: emotion,
+      label: chartConfig[emotion].label,
+      probability: distribution[emotion],
+      fill: `var(--color-${emotion})`,
+    })),
+    ...unmapped.map(({ label, probability }) => ({
+      key: `unmapped-${label}`,
+      label: `${label} (unmapped)`,
+      probability,
+      fill: UNMAPPED_COLOR,
+    })),
+  ].sort((a, b) => b.probability - a.probability);
+
+  return (
+    <div className={className}>
+      <h4 className="text-sm font-semibold mb-2">Probability Distribution</h4>
+      <ChartContainer
+        config={chartConfig}
+        className="aspect-auto w-full"
+        style={{ height: rows.length * 28 + 8 }}
+      >
+        <BarChart data={rows} layout="vertical" margin={{ left: 0, right: 40, top: 0, bottom: 0 }}>
+          <XAxis type="number" domain={[0, 1]} hide />
+          <YAxis
+            type="category"
+            dataKey="label"
+            width={110}
+            tickLine={false}
+            axisLine={false}
+          />
+          <ChartTooltip
+            cursor={false}
+            content={
+              <ChartTooltipContent
+                hideLabel
+                formatter={(value, _name, item) => (
+                  <span>
+                    {item.payload.label}: <span className="font-mono">{(Number(value) * 100).toFixed(1)}%</span>
+                  </span>
+                )}
+              />
+            }
+          />
+          <Bar dataKey="probability" radius={4} isAnimationActive={false}>
+            {rows.map((row) => (
+              <Cell key={row.key} fill={row.fill} />
+            ))}
+            <LabelList
+              dataKey="probability"
+              position="right"
+              className="fill-foreground font-mono"
+              formatter={(value: number) => `${Math.round(value * 100)}%`}
+            />
+          </Bar>
+        </BarChart>
+      </ChartContainer>
+    </div>
+  );
+};
+
+export default EmotionDistributionChart;
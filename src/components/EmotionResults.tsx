@@ -1,27 +1,55 @@
 
-import React from "react";
+import React, { useMemo, useState } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Progress } from "@/components/ui/progress";
 import { Tabs, TabsList, TabsTrigger, TabsContent } from "@/components/ui/tabs";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
-import { Info } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { AlertTriangle, Info } from "lucide-react";
+import { FacialKeypoint, PredictionSource } from "@/utils/modelLoader";
+import { AUDIO_FEATURE_INFO, AudioFeatureInfo, AudioFeatures } from "@/utils/audioFeatures";
+import KeypointOverlay from "@/components/KeypointOverlay";
+import { faceCropCorners } from "@/utils/faceLocalization";
+import { CANONICAL_EMOTIONS, UnmappedLabel } from "@/utils/emotionLabels";
+import EmotionDistributionChart from "@/components/EmotionDistributionChart";
+import ExportMenu from "@/components/ExportMenu";
+import {
+  DEFAULT_GATE_THRESHOLD,
+  FUSION_STRATEGIES,
+  FusionResult,
+  FusionStrategy,
+  fuseAnalysis,
+} from "@/utils/emotionFusion";
+import type { EmotionData } from "@/utils/emotionAnalysis";
+import type { ExportableSession } from "@/utils/sessionExport";
+
+export type { EmotionData };
 
 interface EmotionResultsProps {
-  emotionData: {
-    facial: string | null;
-    speech: string | null;
-    confidence: {
-      facial: number | null;
-      speech: number | null;
-    };
-  };
+  emotionData: EmotionData;
   capturedImage: string | null;
+  keypoints?: FacialKeypoint[] | null;
+  // Offers JSON, CSV and report downloads of the session the results belong to
+  exportSession?: ExportableSession | null;
 }
 
 const EmotionResults: React.FC<EmotionResultsProps> = ({
   emotionData,
   capturedImage,
+  keypoints = null,
+  exportSession = null,
 }) => {
+  const [fusionStrategy, setFusionStrategy] = useState<FusionStrategy>(
+    emotionData.fusion?.strategy ?? "weightedAverage"
+  );
+
+  // Re-fuse the stored distributions when a different strategy is picked
+  const fusion = useMemo(() => {
+    if (emotionData.fusion?.strategy === fusionStrategy) return emotionData.fusion;
+    return fuseAnalysis(emotionData, { strategy: fusionStrategy });
+  }, [emotionData, fusionStrategy]);
+
   const getEmotionColor = (emotion: string | null) => {
     if (!emotion) return "bg-muted text-muted-foreground";
     
@@ -49,10 +77,149 @@ const EmotionResults: React.FC<EmotionResultsProps> = ({
       fearful: "Negative emotion with signs of anxiety and apprehension",
     };
     
-    return descriptions[emotion] || "Unknown emotional state";
+    if (descriptions[emotion]) return descriptions[emotion];
+    if (!(CANONICAL_EMOTIONS as readonly string[]).includes(emotion)) {
+      return `The model's "${emotion}" class has no equivalent in this app's emotion set`;
+    }
+    return "Unknown emotional state";
+  };
+
+  const renderUnmapped = (labels: UnmappedLabel[]) => {
+    if (labels.length === 0) return null;
+
+    return (
+      <div className="mt-3 text-xs text-muted-foreground">
+        <span className="font-semibold">Unmapped model classes: </span>
+        {labels
+          .map(({ label, probability }) => `${label} ${Math.round(probability * 100)}%`)
+          .join(", ")}
+      </div>
+    );
+  };
+
+  const renderFallbackNotice = (source: PredictionSource | null, reason: string | null) => {
+    if (source !== "fallback") return null;
+
+    return (
+      <Alert variant="destructive" className="mb-4">
+        <AlertTriangle className="h-4 w-4" />
+        <AlertTitle className="flex items-center gap-2">
+          <Badge variant="destructive">Not a real prediction</Badge>
+        </AlertTitle>
+        <AlertDescription>
+          Demo mode: the model was unavailable, so this is a synthetic placeholder.
+          {reason && <span className="block text-xs mt-1 break-words">{reason}</span>}
+        </AlertDescription>
+      </Alert>
+    );
+  };
+
+  const renderUnavailable = (label: string, reason: string | null) => (
+    <div className="text-center text-muted-foreground py-8 space-y-2">
+      <div>{reason ? `${label} is unavailable` : `No ${label.toLowerCase()} data available`}</div>
+      {reason && (
+        <>
+          <div className="text-xs break-words">{reason}</div>
+          <div className="text-xs">Turn on demo mode to see a placeholder result.</div>
+        </>
+      )}
+    </div>
+  );
+
+  const unitSuffix = (info: AudioFeatureInfo) => (info.unit === "%" ? "%" : info.unit ? ` ${info.unit}` : "");
+
+  const renderFeature = (key: keyof AudioFeatures) => {
+    const index = AUDIO_FEATURE_INFO.findIndex((info) => info.key === key);
+    const info = AUDIO_FEATURE_INFO[index];
+    const features = emotionData.audioFeatures;
+
+    if (!features) {
+      return (
+        <div key={key} className="bg-muted/20 p-2 rounded">
+          <div className="text-xs text-muted-foreground">{info.label}</div>
+          <div className="font-mono text-sm text-muted-foreground">Unavailable</div>
+        </div>
+      );
+    }
+
+    const value = features.raw[key];
+    const displayed = value * info.scale;
+    const outOfRange = info.reference && (displayed < info.reference.min || displayed > info.reference.max);
+    const scaled = features.scaled?.[index];
+
+    return (
+      <div key={key} className="bg-muted/20 p-2 rounded" title={info.description}>
+        <div className="text-xs text-muted-foreground">{info.label}</div>
+        <div className={`font-mono text-sm ${outOfRange ? "text-amber-500" : ""}`}>
+          {displayed.toFixed(info.decimals)}{unitSuffix(info)}
+        </div>
+        <div className="font-mono text-[10px] text-muted-foreground">
+          {info.reference
+            ? `training ${info.reference.min}–${info.reference.max}${unitSuffix(info)}`
+            : info.description}
+          {scaled !== undefined && ` · z ${scaled >= 0 ? "+" : ""}${scaled.toFixed(2)}`}
+        </div>
+      </div>
+    );
+  };
+
+  const formatEnsembleScore = (probabilities: number[] | null) => {
+    const ensemble = emotionData.speechEnsemble;
+    if (!ensemble || !probabilities) return "n/a";
+
+    // Probability this model gave to the class the ensemble picked
+    const winner = ensemble.fused.indexOf(Math.max(...ensemble.fused));
+    return `${Math.round(probabilities[winner] * 100)}%`;
+  };
+
+  const percent = (value: number) => `${Math.round(value * 100)}%`;
+
+  const explainFusion = (result: FusionResult) => {
+    const { facial, speech } = result.topEmotions;
+    const facialDistribution = emotionData.distribution.facial;
+    const speechDistribution = emotionData.distribution.speech;
+
+    if (result.agreement === null || !facial || !speech || !facialDistribution || !speechDistribution) {
+      const modality = facial ? "facial" : "speech";
+      const other = facial ? emotionData.source.speech : emotionData.source.facial;
+      if (other === "fallback") {
+        return `The ${facial ? "voice" : "face"} result is demo data and is left out, so the ${modality} analysis determines the assessment.`;
+      }
+      return `Only the ${modality} analysis produced a result, so it determines the assessment.`;
+    }
+    if (result.sameTopEmotion) {
+      return `Face and voice both point to ${facial}, so the assessment follows them.`;
+    }
+
+    const disagreement =
+      `The face suggests ${facial} (${percent(facialDistribution[facial])}) ` +
+      `while the voice suggests ${speech} (${percent(speechDistribution[speech])}).`;
+
+    switch (result.strategy) {
+      case "productOfExperts":
+        return `${disagreement} Multiplying the distributions favours ${result.emotion}, the emotion with the most support from both.`;
+      case "confidenceGated":
+        if (result.decidedBy.length === 1) {
+          const leader = result.decidedBy[0] === "facial" ? "face" : "voice";
+          return `${disagreement} The ${leader} is confident enough (at least ${percent(DEFAULT_GATE_THRESHOLD)}) to decide on its own.`;
+        }
+        return `${disagreement} Neither reaches ${percent(DEFAULT_GATE_THRESHOLD)} confidence, so they were averaged, favouring ${result.emotion}.`;
+      default:
+        return `${disagreement} Averaging them (${result.weights.facial.toFixed(2)} face / ${result.weights.speech.toFixed(2)} voice) favours ${result.emotion}.`;
+    }
+  };
+
+  const describeAgreement = (agreement: number) => {
+    if (agreement >= 0.8) return "High";
+    if (agreement >= 0.5) return "Moderate";
+    return "Low";
   };
 
-  const hasResults = emotionData.facial !== null || emotionData.speech !== null;
+  const hasResults =
+    emotionData.facial !== null ||
+    emotionData.speech !== null ||
+    emotionData.unavailable.facial !== null ||
+    emotionData.unavailable.speech !== null;
 
   if (!hasResults) {
     return (
@@ -70,6 +237,78 @@ const EmotionResults: React.FC<EmotionResultsProps> = ({
 
   return (
     <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+      {exportSession && (
+        <div className="lg:col-span-2 flex justify-end">
+          <ExportMenu sessions={[exportSession]} />
+        </div>
+      )}
+      {fusion && (
+        <Card className="lg:col-span-2">
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 gap-4">
+            <CardTitle>Combined Assessment</CardTitle>
+            <Select value={fusionStrategy} onValueChange={(value) => setFusionStrategy(value as FusionStrategy)}>
+              <SelectTrigger className="w-48">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {FUSION_STRATEGIES.map((strategy) => (
+                  <SelectItem key={strategy.id} value={strategy.id}>
+                    {strategy.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </CardHeader>
+          <CardContent>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              <div>
+                {fusion.synthetic ? (
+                  <Badge variant="destructive" className="mb-4">Demo data</Badge>
+                ) : (
+                  (emotionData.source.facial === "fallback" || emotionData.source.speech === "fallback") && (
+                    <Badge variant="outline" className="mb-4">Demo data left out</Badge>
+                  )
+                )}
+                <div className="flex items-center gap-4 mb-6">
+                  <div className={`px-4 py-2 rounded-full text-sm font-semibold ${getEmotionColor(fusion.emotion)}`}>
+                    {fusion.emotion.toUpperCase()}
+                  </div>
+                  <div className="flex-1">
+                    <div className="flex justify-between text-sm mb-1">
+                      <span>Confidence</span>
+                      <span>{percent(fusion.confidence)}</span>
+                    </div>
+                    <Progress value={fusion.confidence * 100} />
+                  </div>
+                </div>
+
+                {fusion.agreement !== null && (
+                  <div className="mb-4">
+                    <div className="flex justify-between text-sm mb-1">
+                      <span>Modality agreement</span>
+                      <span>
+                        {describeAgreement(fusion.agreement)} · {percent(fusion.agreement)}
+                      </span>
+                    </div>
+                    <Progress value={fusion.agreement * 100} />
+                  </div>
+                )}
+
+                <Alert>
+                  <AlertTitle>{fusion.sameTopEmotion === false ? "Modalities disagree" : "Decision"}</AlertTitle>
+                  <AlertDescription>{explainFusion(fusion)}</AlertDescription>
+                </Alert>
+                <div className="mt-2 text-xs text-muted-foreground">
+                  {FUSION_STRATEGIES.find((strategy) => strategy.id === fusion.strategy)?.description}
+                </div>
+              </div>
+
+              <EmotionDistributionChart distribution={fusion.distribution} />
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       <Card>
         <CardHeader>
           <CardTitle>Facial Emotion Analysis</CardTitle>
@@ -77,6 +316,7 @@ const EmotionResults: React.FC<EmotionResultsProps> = ({
         <CardContent>
           {emotionData.facial ? (
             <div>
+              {renderFallbackNotice(emotionData.source.facial, emotionData.fallbackReason.facial)}
               <div className="flex items-center gap-4 mb-6">
                 <div className={`px-4 py-2 rounded-full text-sm font-semibold ${getEmotionColor(emotionData.facial)}`}>
                   {emotionData.facial.toUpperCase()}
@@ -96,6 +336,14 @@ const EmotionResults: React.FC<EmotionResultsProps> = ({
                   {getEmotionDescription(emotionData.facial)}
                 </AlertDescription>
               </Alert>
+              {renderUnmapped(emotionData.unmapped.facial)}
+              {emotionData.distribution.facial && (
+                <EmotionDistributionChart
+                  distribution={emotionData.distribution.facial}
+                  unmapped={emotionData.unmapped.facial}
+                  className="mt-4"
+                />
+              )}
               
               <div className="mt-6 bg-black rounded-lg relative overflow-hidden w-full aspect-square">
                 {capturedImage && (
@@ -105,12 +353,47 @@ const EmotionResults: React.FC<EmotionResultsProps> = ({
                     className="w-full h-full object-cover"
                   />
                 )}
+                {capturedImage && <KeypointOverlay keypoints={keypoints} />}
+                {capturedImage && emotionData.faceCrop && (
+                  <svg
+                    viewBox="0 0 1 1"
+                    preserveAspectRatio="none"
+                    className="absolute inset-0 w-full h-full pointer-events-none"
+                  >
+                    <polygon
+                      points={faceCropCorners(emotionData.faceCrop).map(({ x, y }) => `${x},${y}`).join(" ")}
+                      fill="none"
+                      strokeWidth={0.006}
+                      strokeDasharray="0.02 0.01"
+                      className="stroke-primary"
+                    />
+                  </svg>
+                )}
               </div>
+
+              {emotionData.faceCrop && (
+                <div className="mt-4 flex items-center gap-4">
+                  <img
+                    src={emotionData.faceCrop.image}
+                    alt="Analysed face region"
+                    className="w-24 h-24 rounded-md border object-cover"
+                  />
+                  <div className="text-xs text-muted-foreground space-y-1">
+                    <div className="font-semibold text-foreground">Analysed region</div>
+                    <div>
+                      {emotionData.faceCrop.method === "keypoints"
+                        ? "Located from facial keypoints"
+                        : "No face landmarks found, centre of frame used"}
+                    </div>
+                    <div className="font-mono">
+                      {Math.round(emotionData.faceCrop.size)}px square, rotated {(emotionData.faceCrop.angle * 180 / Math.PI).toFixed(1)}°
+                    </div>
+                  </div>
+                </div>
+              )}
             </div>
           ) : (
-            <div className="text-center text-muted-foreground py-8">
-              No facial emotion data available
-            </div>
+            renderUnavailable("Facial emotion", emotionData.unavailable.facial)
           )}
         </CardContent>
       </Card>
@@ -122,6 +405,7 @@ const EmotionResults: React.FC<EmotionResultsProps> = ({
         <CardContent>
           {emotionData.speech ? (
             <div>
+              {renderFallbackNotice(emotionData.source.speech, emotionData.fallbackReason.speech)}
               <div className="flex items-center gap-4 mb-6">
                 <div className={`px-4 py-2 rounded-full text-sm font-semibold ${getEmotionColor(emotionData.speech)}`}>
                   {emotionData.speech.toUpperCase()}
@@ -141,62 +425,63 @@ const EmotionResults: React.FC<EmotionResultsProps> = ({
                   {getEmotionDescription(emotionData.speech)}
                 </AlertDescription>
               </Alert>
-              
-              <div className="mt-6">
-                <h4 className="text-sm font-semibold mb-2">Audio Features</h4>
-                <Tabs defaultValue="features">
-                  <TabsList className="grid grid-cols-2">
-                    <TabsTrigger value="features">Key Features</TabsTrigger>
-                    <TabsTrigger value="advanced">Advanced</TabsTrigger>
-                  </TabsList>
-                  
-                  <TabsContent value="features">
-                    <div className="grid grid-cols-2 gap-2 mt-2">
-                      <div className="bg-muted/20 p-2 rounded">
-                        <div className="text-xs text-muted-foreground">Duration</div>
-                        <div className="font-mono text-sm">10s</div>
-                      </div>
-                      <div className="bg-muted/20 p-2 rounded">
-                        <div className="text-xs text-muted-foreground">Pitch</div>
-                        <div className="font-mono text-sm">{(Math.random() * 150 + 100).toFixed(1)} Hz</div>
-                      </div>
-                      <div className="bg-muted/20 p-2 rounded">
-                        <div className="text-xs text-muted-foreground">Speech Rate</div>
-                        <div className="font-mono text-sm">{(Math.random() * 3 + 2).toFixed(1)} wps</div>
-                      </div>
-                      <div className="bg-muted/20 p-2 rounded">
-                        <div className="text-xs text-muted-foreground">Sentiment</div>
-                        <div className="font-mono text-sm">{(Math.random() * 2 - 1).toFixed(2)}</div>
-                      </div>
-                    </div>
-                  </TabsContent>
-                  
-                  <TabsContent value="advanced">
-                    <div className="grid grid-cols-2 gap-2 mt-2">
-                      <div className="bg-muted/20 p-2 rounded">
-                        <div className="text-xs text-muted-foreground">Jitter</div>
-                        <div className="font-mono text-sm">{(Math.random() * 0.02).toFixed(3)}</div>
-                      </div>
-                      <div className="bg-muted/20 p-2 rounded">
-                        <div className="text-xs text-muted-foreground">Shimmer</div>
-                        <div className="font-mono text-sm">{(Math.random() * 0.1).toFixed(3)}</div>
-                      </div>
-                      <div className="bg-muted/20 p-2 rounded">
-                        <div className="text-xs text-muted-foreground">MFCC Mean</div>
-                        <div className="font-mono text-sm">{(Math.random() * 10 - 5).toFixed(2)}</div>
-                      </div>
-                      <div className="bg-muted/20 p-2 rounded">
-                        <div className="text-xs text-muted-foreground">Model Ensemble</div>
-                        <div className="font-mono text-sm">0.3 MLP / 0.7 XGB</div>
-                      </div>
-                    </div>
-                  </TabsContent>
-                </Tabs>
-              </div>
+              {renderUnmapped(emotionData.unmapped.speech)}
+              {emotionData.distribution.speech && (
+                <EmotionDistributionChart
+                  distribution={emotionData.distribution.speech}
+                  unmapped={emotionData.unmapped.speech}
+                  className="mt-4"
+                />
+              )}
             </div>
           ) : (
-            <div className="text-center text-muted-foreground py-8">
-              No speech emotion data available
+            renderUnavailable("Speech emotion", emotionData.unavailable.speech)
+          )}
+
+          {(emotionData.speech || emotionData.audioFeatures) && (
+            <div className="mt-6">
+              <h4 className="text-sm font-semibold mb-2 flex items-center gap-2">
+                Audio Features
+                {emotionData.audioFeatures?.synthetic && <Badge variant="outline">Demo data</Badge>}
+              </h4>
+              <Tabs defaultValue="features">
+                <TabsList className="grid grid-cols-2">
+                  <TabsTrigger value="features">Key Features</TabsTrigger>
+                  <TabsTrigger value="advanced">Advanced</TabsTrigger>
+                </TabsList>
+                
+                <TabsContent value="features">
+                  <div className="grid grid-cols-2 gap-2 mt-2">
+                    {renderFeature("duration")}
+                    {renderFeature("pitch")}
+                    {renderFeature("speechRate")}
+                    {renderFeature("sentimentScore")}
+                  </div>
+                </TabsContent>
+                
+                <TabsContent value="advanced">
+                  <div className="grid grid-cols-2 gap-2 mt-2">
+                    {renderFeature("jitter")}
+                    {renderFeature("shimmer")}
+                    {renderFeature("mfccMean")}
+                    <div className="bg-muted/20 p-2 rounded">
+                      <div className="text-xs text-muted-foreground">Model Ensemble</div>
+                      {emotionData.speechEnsemble ? (
+                        <>
+                          <div className="font-mono text-sm">
+                            {emotionData.speechEnsemble.weights.mlp.toFixed(2)} MLP / {emotionData.speechEnsemble.weights.xgb.toFixed(2)} XGB
+                          </div>
+                          <div className="font-mono text-xs text-muted-foreground">
+                            MLP {formatEnsembleScore(emotionData.speechEnsemble.mlp)} · XGB {formatEnsembleScore(emotionData.speechEnsemble.xgb)}
+                          </div>
+                        </>
+                      ) : (
+                        <div className="font-mono text-sm text-muted-foreground">Unavailable</div>
+                      )}
+                    </div>
+                  </div>
+                </TabsContent>
+              </Tabs>
             </div>
           )}
         </CardContent>
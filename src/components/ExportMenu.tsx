@@ -0,0 +1,78 @@
+import React, { useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { toast } from "@/components/ui/use-toast";
+import { Download, FileJson, FileSpreadsheet, FileText, Loader2 } from "lucide-react";
+import { downloadJson, downloadText } from "@/utils/download";
+import {
+  ExportableSession,
+  exportFilename,
+  ExportFormat,
+  sessionsToCsv,
+  sessionsToHtmlReport,
+  sessionsToJson,
+} from "@/utils/sessionExport";
+
+interface ExportMenuProps {
+  sessions: ExportableSession[];
+  label?: string;
+}
+
+const FORMATS: { id: ExportFormat; label: string; icon: React.ElementType }[] = [
+  { id: "json", label: "JSON (full record)", icon: FileJson },
+  { id: "csv", label: "CSV (one row per session)", icon: FileSpreadsheet },
+  { id: "html", label: "Printable report (HTML)", icon: FileText },
+];
+
+// Downloads the given sessions as JSON, CSV or a printable HTML report
+const ExportMenu: React.FC<ExportMenuProps> = ({ sessions, label = "Export" }) => {
+  const [isExporting, setIsExporting] = useState(false);
+
+  const exportAs = async (format: ExportFormat) => {
+    setIsExporting(true);
+    try {
+      const filename = exportFilename(format);
+      if (format === "json") {
+        downloadJson(await sessionsToJson(sessions), filename);
+      } else if (format === "csv") {
+        downloadText(sessionsToCsv(sessions), filename, "text/csv");
+      } else {
+        downloadText(sessionsToHtmlReport(sessions), filename, "text/html");
+      }
+    } catch (error) {
+      console.error(`Exporting ${format} failed:`, error);
+      toast({
+        title: "Export failed",
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive",
+      });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size="sm" className="gap-2" disabled={sessions.length === 0 || isExporting}>
+          {isExporting ? <Loader2 className="h-4 w-4 animate-spin" /> : <Download className="h-4 w-4" />}
+          {label}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        {FORMATS.map(({ id, label: formatLabel, icon: Icon }) => (
+          <DropdownMenuItem key={id} onSelect={() => exportAs(id)} className="gap-2">
+            <Icon className="h-4 w-4" /> {formatLabel}
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
+
+export default ExportMenu;
@@ -1,37 +1,61 @@
 
 import React, { useRef, useEffect, useState } from "react";
 import { Button } from "@/components/ui/button";
-import { Camera, RefreshCw } from "lucide-react";
+import { toast } from "@/components/ui/use-toast";
+import { Camera, RefreshCw, Upload } from "lucide-react";
+import KeypointOverlay from "@/components/KeypointOverlay";
+import { useMediaDrop } from "@/hooks/use-media-drop";
+import { cropCenterSquare, readImageFile } from "@/utils/mediaFiles";
+import { FacialKeypoint } from "@/utils/modelLoader";
 
 interface ImageCaptureProps {
   onCapture: (imageData: string) => void;
   capturedImage: string | null;
+  keypoints?: FacialKeypoint[] | null;
+  // Live mode keeps the camera running and hands the video element to the caller
+  live?: boolean;
+  onVideoChange?: (video: HTMLVideoElement | null) => void;
 }
 
 const ImageCapture: React.FC<ImageCaptureProps> = ({ 
   onCapture, 
-  capturedImage
+  capturedImage,
+  keypoints = null,
+  live = false,
+  onVideoChange
 }) => {
   const videoRef = useRef<HTMLVideoElement | null>(null);
   const canvasRef = useRef<HTMLCanvasElement | null>(null);
   const [stream, setStream] = useState<MediaStream | null>(null);
   const [hasPermission, setHasPermission] = useState<boolean | null>(null);
+  // Latest callback, so a new function identity does not restart the camera
+  const onVideoChangeRef = useRef(onVideoChange);
+  onVideoChangeRef.current = onVideoChange;
 
   useEffect(() => {
+    let activeStream: MediaStream | null = null;
+    let cancelled = false;
+
     const startCamera = async () => {
       try {
         const mediaStream = await navigator.mediaDevices.getUserMedia({
           video: { 
-            width: { ideal: 96 },
-            height: { ideal: 96 }
+            width: { ideal: 640 },
+            height: { ideal: 480 }
           }
         });
+        if (cancelled) {
+          mediaStream.getTracks().forEach(track => track.stop());
+          return;
+        }
+        activeStream = mediaStream;
         
         if (videoRef.current) {
           videoRef.current.srcObject = mediaStream;
         }
         setStream(mediaStream);
         setHasPermission(true);
+        onVideoChangeRef.current?.(videoRef.current);
       } catch (error) {
         console.error("Error accessing camera:", error);
         setHasPermission(false);
@@ -42,9 +66,12 @@ const ImageCapture: React.FC<ImageCaptureProps> = ({
       startCamera();
     }
 
+    // Stop the stream this effect started; `stream` state would be stale here
     return () => {
-      if (stream) {
-        stream.getTracks().forEach(track => track.stop());
+      cancelled = true;
+      if (activeStream) {
+        activeStream.getTracks().forEach(track => track.stop());
+        onVideoChangeRef.current?.(null);
       }
     };
   }, [capturedImage]);
@@ -55,7 +82,23 @@ const ImageCapture: React.FC<ImageCaptureProps> = ({
       const context = canvas.getContext('2d');
       
       if (context) {
-        context.drawImage(videoRef.current, 0, 0, canvas.width, canvas.height);
+        // Capture the centred square of the frame at full resolution; the face
+        // is located and cropped to the model input size during analysis.
+        const video = videoRef.current;
+        const side = Math.min(video.videoWidth, video.videoHeight) || 96;
+        canvas.width = side;
+        canvas.height = side;
+        context.drawImage(
+          video,
+          (video.videoWidth - side) / 2,
+          (video.videoHeight - side) / 2,
+          side,
+          side,
+          0,
+          0,
+          side,
+          side
+        );
         const imageData = canvas.toDataURL('image/png');
         onCapture(imageData);
         
@@ -71,6 +114,23 @@ const ImageCapture: React.FC<ImageCaptureProps> = ({
     onCapture("");
   };
 
+  // An uploaded image stands in for a captured frame, cropped the same way
+  const handleUpload = (file: File) => {
+    readImageFile(file)
+      .then(cropCenterSquare)
+      .then(onCapture)
+      .catch((error) => {
+        console.error("Reading the image failed:", error);
+        toast({
+          title: "Could not read the image",
+          description: error instanceof Error ? error.message : String(error),
+          variant: "destructive",
+        });
+      });
+  };
+
+  const { isDragging, dropProps, inputProps, openPicker } = useMediaDrop("image", handleUpload, !live);
+
   useEffect(() => {
     if (capturedImage && canvasRef.current) {
       const canvas = canvasRef.current;
@@ -79,6 +139,9 @@ const ImageCapture: React.FC<ImageCaptureProps> = ({
       if (ctx) {
         const img = new Image();
         img.onload = () => {
+          canvas.width = img.naturalWidth;
+          canvas.height = img.naturalHeight;
+
           // Clear the canvas before drawing
           ctx.clearRect(0, 0, canvas.width, canvas.height);
           
@@ -92,7 +155,7 @@ const ImageCapture: React.FC<ImageCaptureProps> = ({
 
   return (
     <div className="flex flex-col items-center">
-      <div className="bg-black relative w-96 h-96 overflow-hidden rounded-lg">
+      <div className="bg-black relative w-96 h-96 overflow-hidden rounded-lg" {...dropProps}>
         {!capturedImage ? (
           <>
             <video
@@ -102,11 +165,13 @@ const ImageCapture: React.FC<ImageCaptureProps> = ({
               muted
               className="w-full h-full object-cover"
             />
-            <div className="absolute bottom-4 left-0 right-0 flex justify-center">
-              <Button onClick={captureImage} className="gap-2">
-                <Camera className="h-4 w-4" /> Capture Image
-              </Button>
-            </div>
+            {!live && (
+              <div className="absolute bottom-4 left-0 right-0 flex justify-center">
+                <Button onClick={captureImage} className="gap-2">
+                  <Camera className="h-4 w-4" /> Capture Image
+                </Button>
+              </div>
+            )}
           </>
         ) : null}
         
@@ -116,24 +181,46 @@ const ImageCapture: React.FC<ImageCaptureProps> = ({
           height={96}
           className={`absolute top-0 left-0 w-full h-full object-cover ${capturedImage ? 'block' : 'hidden'}`}
         />
+
+        {capturedImage && <KeypointOverlay keypoints={keypoints} />}
         
         {hasPermission === false && (
           <div className="absolute inset-0 flex items-center justify-center bg-black/80 text-white p-4 text-center">
-            <p>Camera access denied. Please grant permission to use your camera.</p>
+            <p>
+              Camera access denied. Please grant permission to use your camera
+              {live ? "." : ", or upload an image instead."}
+            </p>
+          </div>
+        )}
+
+        {isDragging && (
+          <div className="absolute inset-0 flex items-center justify-center rounded-lg border-2 border-dashed border-primary bg-black/70 text-white pointer-events-none">
+            <p>Drop the image to use it</p>
           </div>
         )}
       </div>
 
-      <div className="mt-4 flex justify-center">
-        {capturedImage ? (
-          <Button onClick={handleRetake} variant="secondary" className="gap-2">
-            <RefreshCw className="h-4 w-4" /> Retake
-          </Button>
-        ) : (
+      <div className="mt-4 flex flex-col items-center gap-2">
+        {!capturedImage && (
           <p className="text-sm text-muted-foreground">
-            Please capture a 96x96 image for facial emotion analysis
+            {live
+              ? "Frames are sampled from this video while live analysis runs"
+              : "Capture a frame or drop an image; the face is located and cropped automatically"}
           </p>
         )}
+        <div className="flex gap-2">
+          {capturedImage && (
+            <Button onClick={handleRetake} variant="secondary" className="gap-2">
+              <RefreshCw className="h-4 w-4" /> Retake
+            </Button>
+          )}
+          {!live && (
+            <Button onClick={openPicker} variant="outline" className="gap-2">
+              <Upload className="h-4 w-4" /> Upload Image
+            </Button>
+          )}
+        </div>
+        <input {...inputProps} />
       </div>
     </div>
   );
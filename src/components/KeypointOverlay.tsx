@@ -0,0 +1,36 @@
+import React from "react";
+import { cn } from "@/lib/utils";
+import { FacialKeypoint } from "@/utils/modelLoader";
+
+interface KeypointOverlayProps {
+  keypoints: FacialKeypoint[] | null;
+  className?: string;
+}
+
+// Draws facial landmarks over an image that fills the same (square) container
+const KeypointOverlay: React.FC<KeypointOverlayProps> = ({ keypoints, className }) => {
+  if (!keypoints || keypoints.length === 0) return null;
+
+  return (
+    <svg
+      viewBox="0 0 1 1"
+      preserveAspectRatio="none"
+      className={cn("absolute inset-0 w-full h-full pointer-events-none", className)}
+    >
+      {keypoints.map((point) => (
+        <circle
+          key={point.name}
+          cx={point.x}
+          cy={point.y}
+          r={0.012}
+          strokeWidth={0.004}
+          className="fill-emerald-400 stroke-black"
+        >
+          <title>{point.name.replace(/_/g, " ")}</title>
+        </circle>
+      ))}
+    </svg>
+  );
+};
+
+export default KeypointOverlay;
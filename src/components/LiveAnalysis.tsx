@@ -0,0 +1,158 @@
+import React, { useState } from "react";
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { ChartContainer, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart";
+import { Camera, Mic, Play, Square } from "lucide-react";
+import ImageCapture from "@/components/ImageCapture";
+import AudioRecorder from "@/components/AudioRecorder";
+import { LiveSample, useLiveAnalysis } from "@/hooks/use-live-analysis";
+import { CANONICAL_EMOTIONS, EMOTION_CHART_CONFIG } from "@/utils/emotionLabels";
+import { ANALYSIS_WINDOW_SECONDS } from "@/utils/audioFeatures";
+
+interface LiveAnalysisProps {
+  demoMode: boolean;
+}
+
+const formatLatency = (value: number | null) => (value === null ? "–" : `${Math.round(value)} ms`);
+
+// Whether either modality of the sample is a demo placeholder
+const usesDemoData = (sample: LiveSample) => sample.source.facial === "fallback" || sample.source.speech === "fallback";
+
+// Continuous analysis of the webcam and microphone with a rolling timeline
+const LiveAnalysis: React.FC<LiveAnalysisProps> = ({ demoMode }) => {
+  const [running, setRunning] = useState(false);
+  const [video, setVideo] = useState<HTMLVideoElement | null>(null);
+  const [audioStream, setAudioStream] = useState<MediaStream | null>(null);
+
+  const { timeline, stats, unavailable } = useLiveAnalysis({ video, audioStream, running, demoMode });
+  const latest = timeline.length > 0 ? timeline[timeline.length - 1] : null;
+  const current = latest?.fused ?? null;
+  const waitingForVoice = running && audioStream && !unavailable.speech && !timeline.some((sample) => sample.speech);
+
+  const chartData = timeline
+    .filter((sample) => sample.fused)
+    .map((sample) => ({ time: Number(sample.time.toFixed(1)), demo: usesDemoData(sample), ...sample.fused.distribution }));
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <Card className="p-4">
+          <h2 className="text-xl font-semibold mb-4 flex items-center">
+            <Camera className="mr-2 h-5 w-5" /> Live Camera
+          </h2>
+          <ImageCapture onCapture={() => undefined} capturedImage={null} live onVideoChange={setVideo} />
+        </Card>
+
+        <Card className="p-4">
+          <h2 className="text-xl font-semibold mb-4 flex items-center">
+            <Mic className="mr-2 h-5 w-5" /> Live Microphone
+          </h2>
+          <AudioRecorder
+            isRecording={false}
+            onRecordingComplete={() => undefined}
+            recordingTime={0}
+            isLive={running}
+            onLiveStream={setAudioStream}
+          />
+        </Card>
+      </div>
+
+      <div className="flex flex-wrap items-center justify-center gap-4">
+        {running ? (
+          <Button onClick={() => setRunning(false)} variant="destructive" className="gap-2">
+            <Square className="h-4 w-4" /> Stop Live Analysis
+          </Button>
+        ) : (
+          <Button onClick={() => setRunning(true)} className="gap-2" disabled={!video}>
+            <Play className="h-4 w-4" /> Start Live Analysis
+          </Button>
+        )}
+        <div className="flex gap-2 font-mono text-xs">
+          <Badge variant="outline">{stats.fps.toFixed(1)} FPS</Badge>
+          <Badge variant="outline">Face {formatLatency(stats.facialLatency)}</Badge>
+          <Badge variant="outline">Voice {formatLatency(stats.speechLatency)}</Badge>
+          <Badge variant="outline">{stats.droppedFrames} skipped</Badge>
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0 gap-4">
+          <CardTitle>Emotion Timeline</CardTitle>
+          {current && (
+            <div className="flex items-center gap-2">
+              {usesDemoData(latest) && (
+                <Badge variant="outline">{current.synthetic ? "Demo data" : "Demo data left out"}</Badge>
+              )}
+              <Badge className="uppercase">
+                {current.emotion} {Math.round(current.confidence * 100)}%
+              </Badge>
+            </div>
+          )}
+        </CardHeader>
+        <CardContent>
+          {(unavailable.facial || unavailable.speech || waitingForVoice) && (
+            <div className="mb-4 text-xs text-muted-foreground space-y-1">
+              {unavailable.facial && <div>Face analysis unavailable: {unavailable.facial}</div>}
+              {unavailable.speech && <div>Voice analysis unavailable: {unavailable.speech}</div>}
+              {waitingForVoice && (
+                <div>Voice results start once {ANALYSIS_WINDOW_SECONDS} s of audio have been recorded.</div>
+              )}
+            </div>
+          )}
+          {chartData.length > 0 ? (
+            <ChartContainer config={EMOTION_CHART_CONFIG} className="aspect-auto h-64 w-full">
+              <LineChart data={chartData} margin={{ left: 0, right: 12, top: 8, bottom: 0 }}>
+                <CartesianGrid vertical={false} />
+                <XAxis
+                  dataKey="time"
+                  type="number"
+                  domain={["dataMin", "dataMax"]}
+                  tickFormatter={(value: number) => `${Math.round(value)}s`}
+                  tickLine={false}
+                  axisLine={false}
+                />
+                <YAxis
+                  domain={[0, 1]}
+                  tickFormatter={(value: number) => `${Math.round(value * 100)}%`}
+                  tickLine={false}
+                  axisLine={false}
+                  width={40}
+                />
+                <ChartTooltip
+                  content={
+                    <ChartTooltipContent
+                      labelFormatter={(_, payload) =>
+                        `${payload?.[0]?.payload.time}s${payload?.[0]?.payload.demo ? " · demo data" : ""}`
+                      }
+                    />
+                  }
+                />
+                {CANONICAL_EMOTIONS.map((emotion) => (
+                  <Line
+                    key={emotion}
+                    dataKey={emotion}
+                    type="monotone"
+                    stroke={`var(--color-${emotion})`}
+                    strokeWidth={2}
+                    dot={false}
+                    isAnimationActive={false}
+                  />
+                ))}
+              </LineChart>
+            </ChartContainer>
+          ) : (
+            <div className="text-center text-muted-foreground py-8">
+              {running
+                ? "Waiting for the first results…"
+                : "Start live analysis to see how the combined emotion changes over time"}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default LiveAnalysis;
@@ -0,0 +1,157 @@
+import React from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { AlertCircle, Boxes, Check, Circle, Gauge, Loader2, RotateCw } from "lucide-react";
+import { Link } from "react-router-dom";
+import { useDemoMode } from "@/hooks/use-demo-mode";
+import { useModelRegistry } from "@/hooks/use-model-registry";
+import { useTfBackend } from "@/hooks/use-tf-backend";
+import { inferenceClient } from "@/utils/inferenceClient";
+import { BACKEND_LABELS, BACKEND_ORDER, isBackendName } from "@/utils/tfBackend";
+import type { ModelEntry, ModelStatus } from "@/utils/modelRegistry";
+
+const statusLabels: Record<ModelStatus, string> = {
+  idle: "Not loaded",
+  loading: "Loading",
+  ready: "Ready",
+  error: "Failed",
+};
+
+const StatusIcon: React.FC<{ status: ModelStatus }> = ({ status }) => {
+  switch (status) {
+    case "ready":
+      return <Check className="h-4 w-4 text-green-500" />;
+    case "loading":
+      return <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />;
+    case "error":
+      return <AlertCircle className="h-4 w-4 text-destructive" />;
+    default:
+      return <Circle className="h-4 w-4 text-muted-foreground" />;
+  }
+};
+
+// Lists every registered model with its load state, so fallback results can be explained
+const ModelHealthPanel: React.FC = () => {
+  const models = useModelRegistry();
+  const [demoMode] = useDemoMode();
+  const failed = models.filter((model) => model.status === "error");
+  const backend = useTfBackend();
+  const backendFailures = Object.entries(backend.state.failures);
+
+  const handleRetry = (model: ModelEntry) => {
+    inferenceClient
+      .dispose(model.id)
+      .then(() => inferenceClient.load(model.id))
+      .catch((error) => {
+        console.error(`Retrying ${model.name} failed:`, error);
+      });
+  };
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle className="text-base flex items-center justify-between">
+          Model Health
+          {failed.length > 0 ? (
+            <Badge variant="destructive">Degraded mode</Badge>
+          ) : models.every((model) => model.status === "ready") ? (
+            <Badge variant="secondary">All models ready</Badge>
+          ) : null}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {failed.length > 0 && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertTitle>Some models failed to load</AlertTitle>
+            <AlertDescription>
+              {demoMode
+                ? "Results that depend on them are demo placeholders and are marked as such."
+                : "Results that depend on them are unavailable."}
+            </AlertDescription>
+          </Alert>
+        )}
+
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          <span className="text-muted-foreground">Backend</span>
+          <Badge variant="outline">
+            {backend.state.active ? BACKEND_LABELS[backend.state.active] : "Not selected"}
+          </Badge>
+          <Select
+            value={backend.preference ?? "auto"}
+            onValueChange={(value) => backend.setPreference(isBackendName(value) ? value : null)}
+          >
+            <SelectTrigger className="h-8 w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="auto">Automatic</SelectItem>
+              {BACKEND_ORDER.map((name) => (
+                <SelectItem key={name} value={name}>
+                  {BACKEND_LABELS[name]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button variant="ghost" size="sm" className="ml-auto gap-1" asChild>
+            <Link to="/models">
+              <Boxes className="h-4 w-4" /> Models
+            </Link>
+          </Button>
+          <Button variant="ghost" size="sm" className="gap-1" asChild>
+            <Link to="/benchmark">
+              <Gauge className="h-4 w-4" /> Benchmark
+            </Link>
+          </Button>
+        </div>
+        {backendFailures.length > 0 && (
+          <div className="text-xs text-muted-foreground">
+            {backendFailures.map(([name, reason]) => (
+              <div key={name}>
+                {BACKEND_LABELS[name as keyof typeof BACKEND_LABELS]} skipped: {reason}
+              </div>
+            ))}
+          </div>
+        )}
+
+        <ul className="divide-y">
+          {models.map((model) => (
+            <li key={model.id} className="py-2 flex items-start gap-3">
+              <div className="mt-0.5">
+                <StatusIcon status={model.status} />
+              </div>
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center justify-between gap-2 text-sm">
+                  <span className="font-medium">{model.name}</span>
+                  <span className="text-xs text-muted-foreground">
+                    {statusLabels[model.status]} · {model.version}
+                    {model.warmUpMs !== null && ` · warm-up ${Math.round(model.warmUpMs)} ms`}
+                  </span>
+                </div>
+                {model.error && (
+                  <div className="text-xs text-destructive break-words mt-1">{model.error}</div>
+                )}
+              </div>
+              {model.status === "error" && (
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7"
+                  onClick={() => handleRetry(model)}
+                  title={`Retry loading ${model.name}`}
+                >
+                  <RotateCw className="h-4 w-4" />
+                </Button>
+              )}
+            </li>
+          ))}
+        </ul>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ModelHealthPanel;
@@ -1,215 +1,221 @@
-
-import React, { useState } from "react";
+import React, { useRef, useState } from "react";
+import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
-import { Card, CardContent, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Progress } from "@/components/ui/progress";
-import { Upload, Check, AlertCircle, Loader2 } from "lucide-react";
+import { Upload, Check, AlertCircle, Loader2, FolderOpen, MinusCircle } from "lucide-react";
 import { toast } from "@/components/ui/use-toast";
+import { useModelRegistry } from "@/hooks/use-model-registry";
+import { collectDroppedFiles, filesFromList, UploadedFile } from "@/utils/fileDrop";
+import { inferenceClient } from "@/utils/inferenceClient";
+import type { FileUploadProgress, ModelUploadReport } from "@/utils/modelUpload";
 
 interface ModelUploaderProps {
-  onModelsLoaded: (status: boolean) => void;
+  onModelsInstalled?: (report: ModelUploadReport) => void;
 }
 
-interface ModelFile {
-  name: string;
-  description: string;
-  path: string;
-  status: 'pending' | 'uploading' | 'success' | 'error';
-  progress: number;
-}
+const ACCEPTED_TYPES = ".json,.bin,.h5,.pkl";
+
+const formatBytes = (bytes: number) =>
+  bytes < 1024 * 1024 ? `${(bytes / 1024).toFixed(1)} KB` : `${(bytes / 1024 / 1024).toFixed(1)} MB`;
 
-const ModelUploader: React.FC<ModelUploaderProps> = ({ onModelsLoaded }) => {
-  const [modelFiles, setModelFiles] = useState<ModelFile[]>([
-    { 
-      name: "Facial Keypoint Model", 
-      description: "Detects 68 facial keypoints",
-      path: "model/keyfacial", 
-      status: 'pending', 
-      progress: 0 
-    },
-    { 
-      name: "Facial Emotion Model", 
-      description: "Classifies facial expressions into emotions",
-      path: "model/facial_emotion", 
-      status: 'pending', 
-      progress: 0 
-    },
-    { 
-      name: "Speech Emotion Model", 
-      description: "Ensemble model (MLP + XGBoost) for speech emotion",
-      path: "model/speech_emotion", 
-      status: 'pending', 
-      progress: 0 
-    },
-  ]);
-  
+const FileStatusIcon: React.FC<{ status: FileUploadProgress["status"] }> = ({ status }) => {
+  switch (status) {
+    case "installed":
+      return <Check className="h-4 w-4 text-green-500" />;
+    case "error":
+      return <AlertCircle className="h-4 w-4 text-destructive" />;
+    case "ignored":
+      return <MinusCircle className="h-4 w-4 text-muted-foreground" />;
+    default:
+      return <Loader2 className="h-4 w-4 text-muted-foreground animate-spin" />;
+  }
+};
+
+// Loads user-supplied model files into the inference worker, replacing the
+// bundled models they match
+const ModelUploader: React.FC<ModelUploaderProps> = ({ onModelsInstalled }) => {
+  const models = useModelRegistry();
+  const [files, setFiles] = useState<FileUploadProgress[]>([]);
   const [isLoading, setIsLoading] = useState(false);
+  const [isDragging, setIsDragging] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const folderInputRef = useRef<HTMLInputElement>(null);
 
-  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
-    // This is where you'd typically handle the file uploads
-    // For this demo, we'll simulate the upload process
-    if (!event.target.files || event.target.files.length === 0) return;
-    
-    setIsLoading(true);
-    
-    // Simulate upload progress for each model
-    let completed = 0;
-    
-    setModelFiles(prev => prev.map(model => ({
-      ...model,
-      status: 'uploading',
-      progress: 0
-    })));
-    
-    // Simulate progress updates for each model
-    modelFiles.forEach((model, index) => {
-      const duration = 1500 + Math.random() * 1500; // Random duration between 1.5-3s
-      const interval = 100;
-      let progress = 0;
-      
-      const timer = setInterval(() => {
-        progress += (interval / duration) * 100;
-        
-        if (progress >= 100) {
-          clearInterval(timer);
-          progress = 100;
-          completed++;
-          
-          setModelFiles(prev => {
-            const updated = [...prev];
-            updated[index] = {
-              ...updated[index],
-              status: 'success',
-              progress: 100
-            };
-            return updated;
-          });
-          
-          if (completed === modelFiles.length) {
-            setIsLoading(false);
-            onModelsLoaded(true);
-            toast({
-              title: "Models uploaded successfully",
-              description: "All models are ready to use for emotion analysis",
-            });
-          }
-        } else {
-          setModelFiles(prev => {
-            const updated = [...prev];
-            updated[index] = {
-              ...updated[index],
-              progress: Math.min(99, progress) // Cap at 99% until complete
-            };
-            return updated;
-          });
-        }
-      }, interval);
-    });
-  };
+  const modelName = (id: string | null) => models.find((model) => model.id === id)?.name ?? id;
+
+  const install = async (uploads: UploadedFile[]) => {
+    if (uploads.length === 0) return;
 
-  const handleLoadDemo = () => {
-    // Simulate loading pre-trained demo models
     setIsLoading(true);
-    
-    setModelFiles(prev => prev.map(model => ({
-      ...model,
-      status: 'uploading',
-      progress: 0
-    })));
-    
-    // Simulate progress for demo model loading
-    let count = 0;
-    const interval = setInterval(() => {
-      count++;
-      
-      setModelFiles(prev => prev.map((model, i) => ({
-        ...model,
-        progress: Math.min(100, count * 20),
-        status: count * 20 >= 100 ? 'success' : 'uploading'
-      })));
-      
-      if (count >= 5) {
-        clearInterval(interval);
-        setIsLoading(false);
-        onModelsLoaded(true);
+    setFiles(
+      uploads.map(({ path, file }) => ({
+        path,
+        loaded: 0,
+        total: file.size,
+        status: "reading",
+        modelId: null,
+        error: null,
+      }))
+    );
+
+    try {
+      const report = await inferenceClient.installModels(uploads, (progress) => {
+        setFiles((previous) => previous.map((file) => (file.path === progress.path ? progress : file)));
+      });
+      setFiles(report.files);
+
+      const failed = report.files.filter((file) => file.status === "error").length;
+      if (report.installed.length > 0) {
         toast({
-          title: "Demo models loaded successfully",
-          description: "Pre-trained models are ready to use for emotion analysis",
+          title: `Installed ${report.installed.map(modelName).join(", ")}`,
+          description: failed > 0 ? `${failed} file(s) could not be used; see the list for details.` : undefined,
+        });
+      } else {
+        toast({
+          title: "No models were installed",
+          description: "None of the files made up a complete, valid model. See the list for details.",
+          variant: "destructive",
         });
       }
-    }, 500);
+      onModelsInstalled?.(report);
+    } catch (error) {
+      console.error("Installing uploaded models failed:", error);
+      toast({
+        title: "Upload failed",
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    install(filesFromList(event.target.files));
+    // Allow picking the same files again
+    event.target.value = "";
   };
 
-  const allModelsLoaded = modelFiles.every(model => model.status === 'success');
+  const handleDrop = (event: React.DragEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    setIsDragging(false);
+    if (isLoading) return;
+    collectDroppedFiles(event.dataTransfer)
+      .then(install)
+      .catch((error) => console.error("Reading dropped files failed:", error));
+  };
 
   return (
     <div className="space-y-6">
       <Card>
         <CardHeader>
-          <CardTitle>AI Model Management</CardTitle>
+          <CardTitle>Upload Models</CardTitle>
         </CardHeader>
         <CardContent className="space-y-6">
-          {modelFiles.map((model, index) => (
-            <div key={index} className="space-y-2">
-              <div className="flex justify-between">
-                <div>
-                  <h4 className="text-sm font-medium">{model.name}</h4>
-                  <p className="text-xs text-muted-foreground">{model.description}</p>
-                </div>
-                {model.status === 'success' && <Check className="h-5 w-5 text-green-500" />}
-                {model.status === 'error' && <AlertCircle className="h-5 w-5 text-destructive" />}
-                {model.status === 'uploading' && <Loader2 className="h-5 w-5 text-muted-foreground animate-spin" />}
-              </div>
-              <Progress value={model.progress} />
-              <p className="text-xs text-muted-foreground">
-                Path: <span className="font-mono">{model.path}</span>
-              </p>
+          <div
+            onDragOver={(event) => {
+              event.preventDefault();
+              setIsDragging(true);
+            }}
+            onDragLeave={() => setIsDragging(false)}
+            onDrop={handleDrop}
+            className={`rounded-lg border-2 border-dashed p-8 flex flex-col items-center gap-4 text-center transition-colors ${
+              isDragging ? "border-primary bg-primary/5" : "border-muted"
+            }`}
+          >
+            <Upload className="h-8 w-8 text-muted-foreground" />
+            <p className="text-sm text-muted-foreground">
+              Drop a model folder or files here (.json, .bin, .h5, .pkl)
+            </p>
+            <div className="flex flex-col sm:flex-row gap-2">
+              <Button onClick={() => fileInputRef.current?.click()} disabled={isLoading} className="gap-2">
+                {isLoading ? <Loader2 className="h-4 w-4 animate-spin" /> : <Upload className="h-4 w-4" />}
+                Choose Files
+              </Button>
+              <Button
+                variant="secondary"
+                onClick={() => folderInputRef.current?.click()}
+                disabled={isLoading}
+                className="gap-2"
+              >
+                <FolderOpen className="h-4 w-4" /> Choose Folder
+              </Button>
             </div>
-          ))}
+            <input
+              ref={fileInputRef}
+              type="file"
+              multiple
+              onChange={handleFileChange}
+              className="hidden"
+              accept={ACCEPTED_TYPES}
+            />
+            <input
+              ref={folderInputRef}
+              type="file"
+              multiple
+              onChange={handleFileChange}
+              className="hidden"
+              {...{ webkitdirectory: "" }}
+            />
+          </div>
+
+          {files.length > 0 && (
+            <ul className="space-y-3">
+              {files.map((file) => (
+                <li key={file.path} className="space-y-1">
+                  <div className="flex items-center justify-between gap-2 text-sm">
+                    <span className="flex items-center gap-2 min-w-0">
+                      <FileStatusIcon status={file.status} />
+                      <span className="font-mono text-xs truncate">{file.path}</span>
+                    </span>
+                    <span className="flex items-center gap-2 shrink-0">
+                      {file.modelId && <Badge variant="secondary">{modelName(file.modelId)}</Badge>}
+                      <span className="text-xs text-muted-foreground">{formatBytes(file.total)}</span>
+                    </span>
+                  </div>
+                  {file.status === "reading" && (
+                    <Progress value={file.total > 0 ? (file.loaded / file.total) * 100 : 0} className="h-1" />
+                  )}
+                  {file.error && (
+                    <p
+                      className={`text-xs break-words ${
+                        file.status === "error" ? "text-destructive" : "text-muted-foreground"
+                      }`}
+                    >
+                      {file.error}
+                    </p>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
         </CardContent>
-        <CardFooter className="flex flex-col sm:flex-row gap-4">
-          <Button
-            onClick={() => document.getElementById('file-upload')?.click()}
-            disabled={isLoading}
-            className="w-full sm:w-auto gap-2"
-          >
-            <Upload className="h-4 w-4" /> Upload Models
-          </Button>
-          <input
-            id="file-upload"
-            type="file"
-            multiple
-            onChange={handleFileChange}
-            className="hidden"
-            accept=".h5,.json,.pkl"
-          />
-          <Button 
-            variant="secondary" 
-            onClick={handleLoadDemo}
-            disabled={isLoading || allModelsLoaded}
-            className="w-full sm:w-auto"
-          >
-            Load Demo Models
-          </Button>
-        </CardFooter>
       </Card>
-      
+
       <div className="text-sm text-muted-foreground">
-        <p className="mb-2">Expected model structure:</p>
+        <p className="mb-2">
+          Models are matched by their input and output shape. Keras architectures need the weights manifest
+          and .bin shards written by <span className="font-mono">scripts/convert-keras-weights.mjs</span>;
+          TF.js <span className="font-mono">model.json</span> files work as they are. Expected layout:
+        </p>
         <pre className="bg-muted p-4 rounded-md overflow-auto text-xs">
-{`model/
+{`models/
 ├─ keyfacial/
-│  ├─ best_model.h5
 │  ├─ model_keyfacial_architecture.json
+│  ├─ best_model_weights_manifest.json
+│  └─ best_model_weights.bin
 ├─ facial_emotion/
-│  ├─ facial.weights.h5
 │  ├─ model_facial_architecture.json
+│  ├─ facial_weights_manifest.json
+│  └─ facial_weights.bin
 └─ speech_emotion/
-   ├─ mlp_model.weights.h5
-   ├─ mlp_mlp_architecture.json
+   ├─ model_mlp_architecture.json
+   ├─ mlp_model_weights_manifest.json
+   ├─ mlp_model_weights.bin
    ├─ xgb_model.json
    ├─ stdscaler.pkl
-   └─ mood_encode.pkl`}
+   └─ mood_encoder.pkl`}
         </pre>
       </div>
     </div>
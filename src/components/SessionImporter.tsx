@@ -0,0 +1,114 @@
+import React, { useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { toast } from "@/components/ui/use-toast";
+import { Loader2, Upload } from "lucide-react";
+import { importSessionFile, SessionImportReport } from "@/utils/sessionImport";
+
+interface SessionImporterProps {
+  onImported?: (report: SessionImportReport) => void;
+}
+
+const describeReport = (report: SessionImportReport) =>
+  [
+    `${report.imported} of ${report.total} imported`,
+    report.duplicates > 0 && `${report.duplicates} already in history`,
+    report.rejected.length > 0 && `${report.rejected.length} rejected`,
+  ]
+    .filter(Boolean)
+    .join(", ");
+
+// Merges a JSON session export into the local history and reports every
+// record it could not use
+const SessionImporter: React.FC<SessionImporterProps> = ({ onImported }) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const [report, setReport] = useState<SessionImportReport | null>(null);
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    // Allow picking the same file again
+    event.target.value = "";
+    if (!file) return;
+
+    setIsImporting(true);
+    try {
+      const result = await importSessionFile(file);
+      onImported?.(result);
+      if (result.rejected.length > 0) {
+        setReport(result);
+      } else {
+        toast({ title: "Sessions imported", description: describeReport(result) });
+      }
+    } catch (error) {
+      console.error("Importing sessions failed:", error);
+      toast({
+        title: "Import failed",
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive",
+      });
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <>
+      <Button
+        variant="outline"
+        size="sm"
+        className="gap-2"
+        onClick={() => inputRef.current?.click()}
+        disabled={isImporting}
+      >
+        {isImporting ? <Loader2 className="h-4 w-4 animate-spin" /> : <Upload className="h-4 w-4" />}
+        Import
+      </Button>
+      <input ref={inputRef} type="file" accept=".json,application/json" onChange={handleFile} className="hidden" />
+
+      <Dialog open={report !== null} onOpenChange={(open) => !open && setReport(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Import finished with errors</DialogTitle>
+            <DialogDescription>{report && describeReport(report)}</DialogDescription>
+          </DialogHeader>
+          <ScrollArea className="max-h-96 pr-4">
+            <ul className="space-y-3">
+              {report?.rejected.map((record) => (
+                <li key={record.index} className="text-sm">
+                  <div className="font-medium">
+                    Session #{record.index + 1}
+                    {record.createdAt && (
+                      <span className="text-muted-foreground font-normal"> · {record.createdAt}</span>
+                    )}
+                  </div>
+                  {record.uid && <div className="font-mono text-xs text-muted-foreground">{record.uid}</div>}
+                  <ul className="list-disc pl-5 text-xs text-destructive">
+                    {record.errors.map((error, index) => (
+                      <li key={index} className="break-words">
+                        {error}
+                      </li>
+                    ))}
+                  </ul>
+                </li>
+              ))}
+            </ul>
+          </ScrollArea>
+          <DialogFooter>
+            <Button onClick={() => setReport(null)}>Close</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
+
+export default SessionImporter;
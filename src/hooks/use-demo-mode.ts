@@ -0,0 +1,44 @@
+import * as React from "react"
+
+const STORAGE_KEY = "emotion-scribe:demo-mode"
+
+type Listener = () => void
+
+const listeners = new Set<Listener>()
+
+function readDemoMode(): boolean {
+  try {
+    return window.localStorage.getItem(STORAGE_KEY) === "true"
+  } catch {
+    return false
+  }
+}
+
+let demoMode = readDemoMode()
+
+export function getDemoMode(): boolean {
+  return demoMode
+}
+
+export function setDemoMode(enabled: boolean) {
+  demoMode = enabled
+  try {
+    window.localStorage.setItem(STORAGE_KEY, String(enabled))
+  } catch {
+    // Storage can be unavailable (private mode); the toggle still works for this session
+  }
+  listeners.forEach((listener) => listener())
+}
+
+function subscribe(listener: Listener) {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
+
+// Demo mode is off by default and remembered across reloads
+export function useDemoMode(): [boolean, (enabled: boolean) => void] {
+  const enabled = React.useSyncExternalStore(subscribe, getDemoMode)
+  return [enabled, setDemoMode]
+}
@@ -0,0 +1,257 @@
+import * as React from "react"
+import { ANALYSIS_WINDOW_SECONDS } from "@/utils/audioFeatures"
+import { Emotion } from "@/utils/emotionLabels"
+import { AnalysisFusion, fuseAnalysis, FusionInputs } from "@/utils/emotionFusion"
+import { localizeFace } from "@/utils/faceLocalization"
+import { AudioTap, createAudioTap, rootMeanSquare } from "@/utils/liveAudio"
+import {
+  extractAudioFeatures,
+  ModelUnavailableError,
+  predictFacialEmotion,
+  predictSpeechEmotion,
+  PredictionSource,
+} from "@/utils/modelLoader"
+
+export interface LiveSample {
+  // Seconds since live analysis started
+  time: number
+  facial: Record<Emotion, number> | null
+  speech: Record<Emotion, number> | null
+  // Fallback distributions are demo placeholders; the fusion leaves them out
+  // when the other modality has model output
+  source: { facial: PredictionSource | null; speech: PredictionSource | null }
+  fused: AnalysisFusion | null
+}
+
+export interface LiveStats {
+  // Facial inferences completed per second
+  fps: number
+  facialLatency: number | null
+  speechLatency: number | null
+  // Frames skipped because the previous one was still being analysed
+  droppedFrames: number
+}
+
+export interface LiveAnalysisOptions {
+  video: HTMLVideoElement | null
+  audioStream: MediaStream | null
+  running: boolean
+  demoMode: boolean
+  frameRate?: number
+  // Length of the audio window each speech prediction sees, and how often it slides
+  windowSeconds?: number
+  hopSeconds?: number
+  historySeconds?: number
+}
+
+export interface LiveAnalysisState {
+  timeline: LiveSample[]
+  stats: LiveStats
+  // Why a modality produces no results, e.g. its model is unavailable
+  unavailable: { facial: string | null; speech: string | null }
+}
+
+const FRAME_SIZE = 256
+const FPS_WINDOW_MS = 2000
+// Windows quieter than this are treated as silence and not analysed
+const SILENCE_RMS = 0.01
+
+const stopTap = (tap: AudioTap) =>
+  tap.stop().catch((error) => console.error("Closing the microphone tap failed:", error))
+
+const EMPTY_STATS: LiveStats = { fps: 0, facialLatency: null, speechLatency: null, droppedFrames: 0 }
+
+const emptyInputs = (): FusionInputs => ({
+  distribution: { facial: null, speech: null },
+  source: { facial: null, speech: null },
+})
+
+function grabFrame(video: HTMLVideoElement, canvas: HTMLCanvasElement): string | null {
+  if (video.readyState < HTMLMediaElement.HAVE_CURRENT_DATA || !video.videoWidth) return null
+  const ctx = canvas.getContext("2d")
+  if (!ctx) return null
+
+  // Same centred square as a still capture, downscaled to keep each frame cheap
+  const side = Math.min(video.videoWidth, video.videoHeight)
+  canvas.width = FRAME_SIZE
+  canvas.height = FRAME_SIZE
+  ctx.drawImage(
+    video,
+    (video.videoWidth - side) / 2,
+    (video.videoHeight - side) / 2,
+    side,
+    side,
+    0,
+    0,
+    FRAME_SIZE,
+    FRAME_SIZE
+  )
+  return canvas.toDataURL("image/jpeg", 0.9)
+}
+
+// Runs both models continuously on the live camera and microphone. A new
+// frame or audio window is only analysed once the previous one has finished,
+// so slow inference drops frames instead of queueing them. Speech is only
+// scored once a full window has been buffered.
+export function useLiveAnalysis({
+  video,
+  audioStream,
+  running,
+  demoMode,
+  frameRate = 4,
+  // The speech models were trained on clips of about this length
+  windowSeconds = ANALYSIS_WINDOW_SECONDS,
+  hopSeconds = 1,
+  historySeconds = 60,
+}: LiveAnalysisOptions): LiveAnalysisState {
+  const [timeline, setTimeline] = React.useState<LiveSample[]>([])
+  const [stats, setStats] = React.useState<LiveStats>(EMPTY_STATS)
+  const [unavailable, setUnavailable] = React.useState<LiveAnalysisState["unavailable"]>({
+    facial: null,
+    speech: null,
+  })
+
+  const startedAt = React.useRef(0)
+  const latest = React.useRef<FusionInputs>(emptyInputs())
+  const frameTimes = React.useRef<number[]>([])
+  const demoModeRef = React.useRef(demoMode)
+  demoModeRef.current = demoMode
+
+  // Reset when a new live session starts
+  React.useEffect(() => {
+    if (!running) return
+    startedAt.current = performance.now()
+    latest.current = emptyInputs()
+    frameTimes.current = []
+    setTimeline([])
+    setStats(EMPTY_STATS)
+    setUnavailable({ facial: null, speech: null })
+  }, [running])
+
+  const record = React.useCallback(() => {
+    const { distribution, source } = latest.current
+    const time = (performance.now() - startedAt.current) / 1000
+    const sample: LiveSample = {
+      time,
+      ...distribution,
+      source: { ...source },
+      fused: fuseAnalysis(latest.current),
+    }
+    setTimeline((previous) => [...previous.filter((entry) => entry.time >= time - historySeconds), sample])
+  }, [historySeconds])
+
+  // Facial loop
+  React.useEffect(() => {
+    if (!running || !video) return
+
+    const canvas = document.createElement("canvas")
+    let busy = false
+    let cancelled = false
+
+    const tick = () => {
+      if (busy) {
+        setStats((previous) => ({ ...previous, droppedFrames: previous.droppedFrames + 1 }))
+        return
+      }
+      const frame = grabFrame(video, canvas)
+      if (!frame) return
+
+      busy = true
+      const started = performance.now()
+      localizeFace(frame)
+        .then((crop) => predictFacialEmotion(crop.image, { demoMode: demoModeRef.current }))
+        .then((prediction) => {
+          if (cancelled) return
+          const now = performance.now()
+          frameTimes.current = [...frameTimes.current.filter((t) => t > now - FPS_WINDOW_MS), now]
+          latest.current.distribution.facial = prediction.distribution
+          latest.current.source.facial = prediction.source
+          setUnavailable((previous) => (previous.facial ? { ...previous, facial: null } : previous))
+          setStats((previous) => ({
+            ...previous,
+            fps: frameTimes.current.length / (FPS_WINDOW_MS / 1000),
+            facialLatency: now - started,
+          }))
+          record()
+        })
+        .catch((error) => {
+          if (cancelled) return
+          if (error instanceof ModelUnavailableError) {
+            setUnavailable((previous) => ({ ...previous, facial: error.message }))
+          } else {
+            console.error("Live facial analysis failed:", error)
+          }
+        })
+        .finally(() => {
+          busy = false
+        })
+    }
+
+    const intervalId = setInterval(tick, 1000 / frameRate)
+    return () => {
+      cancelled = true
+      clearInterval(intervalId)
+    }
+  }, [running, video, frameRate, record])
+
+  // Speech loop
+  React.useEffect(() => {
+    if (!running || !audioStream) return
+
+    let tap: AudioTap | null = null
+    let busy = false
+    let cancelled = false
+
+    const hop = () => {
+      // The models use clip duration as a feature, so a partly filled window
+      // would be far outside the durations they were trained on
+      if (!tap || busy || tap.bufferedSeconds() < windowSeconds) return
+      const samples = tap.read(windowSeconds)
+      const { sampleRate } = tap
+      if (rootMeanSquare(samples) < SILENCE_RMS) return
+
+      busy = true
+      const started = performance.now()
+      extractAudioFeatures({ samples, sampleRate })
+        .then((features) => predictSpeechEmotion(features, undefined, { demoMode: demoModeRef.current }))
+        .then((prediction) => {
+          if (cancelled) return
+          latest.current.distribution.speech = prediction.distribution
+          latest.current.source.speech = prediction.source
+          setUnavailable((previous) => (previous.speech ? { ...previous, speech: null } : previous))
+          setStats((previous) => ({ ...previous, speechLatency: performance.now() - started }))
+          record()
+        })
+        .catch((error) => {
+          if (cancelled) return
+          if (error instanceof ModelUnavailableError) {
+            setUnavailable((previous) => ({ ...previous, speech: error.message }))
+          } else {
+            console.error("Live speech analysis failed:", error)
+          }
+        })
+        .finally(() => {
+          busy = false
+        })
+    }
+
+    createAudioTap(audioStream, windowSeconds)
+      .then((created) => {
+        if (cancelled) {
+          stopTap(created)
+          return
+        }
+        tap = created
+      })
+      .catch((error) => console.error("Could not tap the microphone stream:", error))
+
+    const intervalId = setInterval(hop, hopSeconds * 1000)
+    return () => {
+      cancelled = true
+      clearInterval(intervalId)
+      if (tap) stopTap(tap)
+    }
+  }, [running, audioStream, windowSeconds, hopSeconds, record])
+
+  return { timeline, stats, unavailable }
+}
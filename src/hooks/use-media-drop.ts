@@ -0,0 +1,56 @@
+import * as React from "react"
+import { toast } from "@/components/ui/use-toast"
+import { collectDroppedFiles, filesFromList, UploadedFile } from "@/utils/fileDrop"
+import { ACCEPTED_MEDIA_TYPES, MediaKind, mediaKind } from "@/utils/mediaFiles"
+
+// Drag-and-drop plus a hidden file input for a single image or audio file.
+// Spread `dropProps` on the drop target and `inputProps` on an <input>.
+export function useMediaDrop(kind: MediaKind, onFile: (file: File) => void, enabled = true) {
+  const inputRef = React.useRef<HTMLInputElement>(null)
+  const [isDragging, setIsDragging] = React.useState(false)
+
+  const pick = (uploads: UploadedFile[]) => {
+    if (uploads.length === 0) return
+    const match = uploads.find(({ file }) => mediaKind(file) === kind)
+    if (match) {
+      onFile(match.file)
+    } else {
+      toast({
+        title: `Not a supported ${kind} file`,
+        description: `Use one of ${ACCEPTED_MEDIA_TYPES[kind].split(",").filter((type) => type.startsWith(".")).join(" ")}`,
+        variant: "destructive",
+      })
+    }
+  }
+
+  const dropProps = {
+    onDragOver: (event: React.DragEvent) => {
+      if (!enabled) return
+      event.preventDefault()
+      setIsDragging(true)
+    },
+    onDragLeave: () => setIsDragging(false),
+    onDrop: (event: React.DragEvent) => {
+      event.preventDefault()
+      setIsDragging(false)
+      if (!enabled) return
+      collectDroppedFiles(event.dataTransfer)
+        .then(pick)
+        .catch((error) => console.error("Reading dropped files failed:", error))
+    },
+  }
+
+  const inputProps = {
+    ref: inputRef,
+    type: "file",
+    accept: ACCEPTED_MEDIA_TYPES[kind],
+    className: "hidden",
+    onChange: (event: React.ChangeEvent<HTMLInputElement>) => {
+      pick(filesFromList(event.target.files))
+      // Allow picking the same file again
+      event.target.value = ""
+    },
+  }
+
+  return { isDragging, dropProps, inputProps, openPicker: () => inputRef.current?.click() }
+}
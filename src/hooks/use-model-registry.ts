@@ -0,0 +1,8 @@
+import * as React from "react"
+import { InferenceClient, inferenceClient } from "@/utils/inferenceClient"
+import type { ModelEntry } from "@/utils/modelRegistry"
+
+// Re-renders whenever a model in the inference worker's registry changes status
+export function useModelRegistry(client: InferenceClient = inferenceClient): ModelEntry[] {
+  return React.useSyncExternalStore(client.subscribe, client.getSnapshot)
+}
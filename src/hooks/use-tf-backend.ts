@@ -0,0 +1,65 @@
+import * as React from "react"
+import { inferenceClient } from "@/utils/inferenceClient"
+import { BackendName, BackendState, isBackendName } from "@/utils/tfBackend"
+
+const STORAGE_KEY = "emotion-scribe:tf-backend"
+
+type Listener = () => void
+
+const listeners = new Set<Listener>()
+
+function readPreference(): BackendName | null {
+  try {
+    const stored = window.localStorage.getItem(STORAGE_KEY)
+    return isBackendName(stored) ? stored : null
+  } catch {
+    return null
+  }
+}
+
+let preference = readPreference()
+
+// The backend the user picked, or null for automatic selection
+export function getBackendPreference(): BackendName | null {
+  return preference
+}
+
+export function setBackendPreference(backend: BackendName | null) {
+  preference = backend
+  try {
+    if (backend) {
+      window.localStorage.setItem(STORAGE_KEY, backend)
+    } else {
+      window.localStorage.removeItem(STORAGE_KEY)
+    }
+  } catch {
+    // Storage can be unavailable (private mode); the choice still applies for this session
+  }
+  listeners.forEach((listener) => listener())
+
+  inferenceClient.setBackend(backend).catch((error) => {
+    console.error("Switching TensorFlow.js backend failed:", error)
+  })
+}
+
+function subscribe(listener: Listener) {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
+
+export interface TfBackend {
+  preference: BackendName | null
+  // What the inference worker is actually running on
+  state: BackendState
+  setPreference: (backend: BackendName | null) => void
+}
+
+// The preference is remembered across reloads; the worker falls back through
+// WebGL, WASM and CPU if the preferred backend fails
+export function useTfBackend(): TfBackend {
+  const current = React.useSyncExternalStore(subscribe, getBackendPreference)
+  const state = React.useSyncExternalStore(inferenceClient.subscribe, inferenceClient.getBackendSnapshot)
+  return { preference: current, state, setPreference: setBackendPreference }
+}
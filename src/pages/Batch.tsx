@@ -0,0 +1,496 @@
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import { Link } from "react-router-dom";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { toast } from "@/components/ui/use-toast";
+import {
+  ArrowDown,
+  ArrowLeft,
+  ArrowUp,
+  Download,
+  FileJson,
+  FileSpreadsheet,
+  FolderOpen,
+  Loader2,
+  Play,
+  Square,
+  Upload,
+  X,
+} from "lucide-react";
+import { useDemoMode } from "@/hooks/use-demo-mode";
+import {
+  analyzeBatchItem,
+  batchExportFilename,
+  BatchRow,
+  batchToCsv,
+  batchToJson,
+  pairMediaFiles,
+  runWithConcurrency,
+} from "@/utils/batchAnalysis";
+import { downloadJson, downloadText } from "@/utils/download";
+import { overallEmotion } from "@/utils/emotionAnalysis";
+import { EMOTION_CHART_CONFIG, Emotion } from "@/utils/emotionLabels";
+import { collectDroppedFiles, filesFromList, UploadedFile } from "@/utils/fileDrop";
+import { ACCEPTED_MEDIA_TYPES } from "@/utils/mediaFiles";
+
+type ItemStatus = "queued" | "running" | "done" | "failed" | "skipped";
+
+interface RowState extends BatchRow {
+  status: ItemStatus;
+}
+
+type SortKey = "name" | "emotion" | "facial" | "speech" | "fused" | "status" | "duration";
+
+const CONCURRENCY_OPTIONS = [1, 2, 3, 4];
+
+const STATUS_ORDER: ItemStatus[] = ["failed", "running", "queued", "skipped", "done"];
+
+const emotionLabel = (emotion: string | null) =>
+  emotion ? (EMOTION_CHART_CONFIG[emotion as Emotion]?.label ?? emotion) : "–";
+
+const formatPercent = (value: number | null | undefined) =>
+  value === null || value === undefined ? "" : ` ${Math.round(value * 100)}%`;
+
+const formatEta = (ms: number) => {
+  const seconds = Math.ceil(ms / 1000);
+  return seconds < 60 ? `${seconds}s` : `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+};
+
+// Sort value of a row for each column; null sorts last in either direction
+const SORT_VALUES: Record<SortKey, (row: RowState) => string | number | null> = {
+  name: (row) => row.item.name,
+  emotion: (row) => (row.result?.emotionData ? overallEmotion(row.result.emotionData) : null),
+  facial: (row) => row.result?.emotionData?.confidence.facial ?? null,
+  speech: (row) => row.result?.emotionData?.confidence.speech ?? null,
+  fused: (row) => row.result?.emotionData?.fusion?.confidence ?? null,
+  status: (row) => STATUS_ORDER.indexOf(row.status),
+  duration: (row) => row.result?.durationMs ?? null,
+};
+
+const compareRows = (key: SortKey, descending: boolean) => (a: RowState, b: RowState) => {
+  const left = SORT_VALUES[key](a);
+  const right = SORT_VALUES[key](b);
+  if (left === null || right === null) return left === right ? 0 : left === null ? 1 : -1;
+  const order =
+    typeof left === "string" ? left.localeCompare(String(right), undefined, { numeric: true }) : left - Number(right);
+  return descending ? -order : order;
+};
+
+const STATUS_BADGES: Record<ItemStatus, { label: string; variant: "default" | "secondary" | "outline" | "destructive" }> = {
+  queued: { label: "Queued", variant: "outline" },
+  running: { label: "Running", variant: "secondary" },
+  done: { label: "Done", variant: "default" },
+  failed: { label: "Failed", variant: "destructive" },
+  skipped: { label: "Skipped", variant: "outline" },
+};
+
+// Scores a folder or selection of images and audio clips, pairing them by
+// file name, with a sortable and exportable results table
+const Batch = () => {
+  const [demoMode, setDemoMode] = useDemoMode();
+  const [uploads, setUploads] = useState<UploadedFile[]>([]);
+  const [pairByStem, setPairByStem] = useState(true);
+  const [concurrency, setConcurrency] = useState(2);
+  // Rows of the current or last run; null until a run starts
+  const [runRows, setRunRows] = useState<RowState[] | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+  const [timing, setTiming] = useState<{
+    startedAt: number;
+    // When the last item so far finished
+    lastItemAt: number | null;
+    finishedAt: number | null;
+  } | null>(null);
+  const [sort, setSort] = useState<{ key: SortKey; descending: boolean }>({ key: "name", descending: false });
+  // Ticks every second during a run, so the estimate counts down between items
+  const [now, setNow] = useState(() => Date.now());
+  const [isDragging, setIsDragging] = useState(false);
+  const stopRequestedRef = useRef(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const folderInputRef = useRef<HTMLInputElement>(null);
+
+  const pairing = useMemo(() => pairMediaFiles(uploads, pairByStem), [uploads, pairByStem]);
+
+  const rows = useMemo(
+    () => runRows ?? pairing.items.map((item): RowState => ({ item, result: null, status: "queued" })),
+    [runRows, pairing]
+  );
+  const sortedRows = useMemo(() => [...rows].sort(compareRows(sort.key, sort.descending)), [rows, sort]);
+
+  const finished = rows.filter((row) => row.result !== null).length;
+  const failed = rows.filter((row) => row.status === "failed").length;
+  // Analyzed, but with a failed or unavailable modality
+  const withErrors = rows.filter((row) => row.status === "done" && row.result.errors.length > 0).length;
+  const withWarnings = rows.filter((row) => row.result && row.result.warnings.length > 0).length;
+  const queued = rows.filter((row) => row.status === "queued" || row.status === "running").length;
+  // Throughput up to the last finished item, which already accounts for the
+  // concurrency, counted down since then
+  const etaMs =
+    isRunning && timing?.lastItemAt && finished > 0
+      ? Math.max(
+          0,
+          ((timing.lastItemAt - timing.startedAt) / finished) * queued - Math.max(0, now - timing.lastItemAt)
+        )
+      : null;
+
+  useEffect(() => {
+    if (!isRunning) return;
+    const intervalId = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(intervalId);
+  }, [isRunning]);
+
+  const addFiles = (added: UploadedFile[]) => {
+    if (isRunning || added.length === 0) return;
+    setUploads((previous) => {
+      const known = new Set(previous.map((upload) => upload.path));
+      return [...previous, ...added.filter((upload) => !known.has(upload.path))];
+    });
+    setRunRows(null);
+    setTiming(null);
+  };
+
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    addFiles(filesFromList(event.target.files));
+    // Allow picking the same files again
+    event.target.value = "";
+  };
+
+  const handleDrop = (event: React.DragEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    setIsDragging(false);
+    if (isRunning) return;
+    collectDroppedFiles(event.dataTransfer)
+      .then(addFiles)
+      .catch((error) => console.error("Reading dropped files failed:", error));
+  };
+
+  const updateRow = (id: string, changes: Partial<RowState>) =>
+    setRunRows((previous) => previous?.map((row) => (row.item.id === id ? { ...row, ...changes } : row)) ?? null);
+
+  const start = async () => {
+    const items = pairing.items;
+    if (items.length === 0) return;
+
+    stopRequestedRef.current = false;
+    setIsRunning(true);
+    setTiming({ startedAt: Date.now(), lastItemAt: null, finishedAt: null });
+    setRunRows(items.map((item) => ({ item, result: null, status: "queued" })));
+
+    await runWithConcurrency(
+      items,
+      concurrency,
+      async (item) => {
+        updateRow(item.id, { status: "running" });
+        const result = await analyzeBatchItem(item, demoMode);
+        updateRow(item.id, { result, status: result.emotionData ? "done" : "failed" });
+        setTiming((previous) => previous && { ...previous, lastItemAt: Date.now() });
+      },
+      () => stopRequestedRef.current
+    );
+
+    setRunRows((previous) =>
+      previous?.map((row) => (row.status === "queued" ? { ...row, status: "skipped" } : row)) ?? null
+    );
+    setTiming((previous) => previous && { ...previous, finishedAt: Date.now() });
+    setIsRunning(false);
+  };
+
+  const exportAs = (format: "json" | "csv") => {
+    // In the order the table shows
+    const done = sortedRows.filter((row) => row.result !== null);
+    try {
+      if (format === "json") {
+        downloadJson(batchToJson(done, demoMode), batchExportFilename(format));
+      } else {
+        downloadText(batchToCsv(done), batchExportFilename(format), "text/csv");
+      }
+    } catch (error) {
+      console.error(`Exporting ${format} failed:`, error);
+      toast({
+        title: "Export failed",
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive",
+      });
+    }
+  };
+
+  const toggleSort = (key: SortKey) =>
+    setSort((previous) => ({ key, descending: previous.key === key ? !previous.descending : false }));
+
+  const sortableHead = (column: SortKey, label: string) => (
+    <TableHead key={column}>
+      <button type="button" className="inline-flex items-center gap-1" onClick={() => toggleSort(column)}>
+        {label}
+        {sort.key === column &&
+          (sort.descending ? <ArrowDown className="h-3 w-3" /> : <ArrowUp className="h-3 w-3" />)}
+      </button>
+    </TableHead>
+  );
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-background to-slate-900">
+      <div className="container max-w-6xl py-8 space-y-6">
+        <Button variant="ghost" size="sm" className="gap-1" asChild>
+          <Link to="/">
+            <ArrowLeft className="h-4 w-4" /> Back
+          </Link>
+        </Button>
+        <div className="text-center">
+          <h1 className="text-3xl font-bold mb-2">Batch Analysis</h1>
+          <p className="text-muted-foreground">Score a folder of images and audio clips in one run</p>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Files</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div
+              onDragOver={(event) => {
+                event.preventDefault();
+                setIsDragging(true);
+              }}
+              onDragLeave={() => setIsDragging(false)}
+              onDrop={handleDrop}
+              className={`rounded-lg border-2 border-dashed p-8 flex flex-col items-center gap-4 text-center transition-colors ${
+                isDragging ? "border-primary bg-primary/5" : "border-muted"
+              }`}
+            >
+              <Upload className="h-8 w-8 text-muted-foreground" />
+              <p className="text-sm text-muted-foreground">
+                Drop a folder or files here (png, jpg, webp images; wav, mp3, ogg, webm, m4a audio)
+              </p>
+              <div className="flex flex-col sm:flex-row gap-2">
+                <Button onClick={() => fileInputRef.current?.click()} disabled={isRunning} className="gap-2">
+                  <Upload className="h-4 w-4" /> Choose Files
+                </Button>
+                <Button
+                  variant="secondary"
+                  onClick={() => folderInputRef.current?.click()}
+                  disabled={isRunning}
+                  className="gap-2"
+                >
+                  <FolderOpen className="h-4 w-4" /> Choose Folder
+                </Button>
+              </div>
+              <input
+                ref={fileInputRef}
+                type="file"
+                multiple
+                onChange={handleFileChange}
+                className="hidden"
+                accept={`${ACCEPTED_MEDIA_TYPES.image},${ACCEPTED_MEDIA_TYPES.audio}`}
+              />
+              <input
+                ref={folderInputRef}
+                type="file"
+                multiple
+                onChange={handleFileChange}
+                className="hidden"
+                {...{ webkitdirectory: "" }}
+              />
+            </div>
+
+            <div className="flex flex-wrap items-center gap-4">
+              <div className="flex items-center gap-2">
+                <Switch id="pair-by-stem" checked={pairByStem} onCheckedChange={setPairByStem} disabled={isRunning} />
+                <Label htmlFor="pair-by-stem" className="text-sm">
+                  Pair images and audio by file name
+                </Label>
+              </div>
+              <div className="flex items-center gap-2">
+                <Label className="text-sm">Parallel items</Label>
+                <Select
+                  value={String(concurrency)}
+                  onValueChange={(value) => setConcurrency(Number(value))}
+                  disabled={isRunning}
+                >
+                  <SelectTrigger className="h-9 w-20">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {CONCURRENCY_OPTIONS.map((option) => (
+                      <SelectItem key={option} value={String(option)}>
+                        {option}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="flex items-center gap-2">
+                <Switch id="batch-demo-mode" checked={demoMode} onCheckedChange={setDemoMode} disabled={isRunning} />
+                <Label htmlFor="batch-demo-mode" className="text-sm">
+                  Demo mode
+                </Label>
+              </div>
+              <span className="ml-auto text-sm text-muted-foreground">
+                {uploads.length} files, {pairing.items.length} items
+                {pairing.ignored.length > 0 && `, ${pairing.ignored.length} unsupported ignored`}
+              </span>
+              {uploads.length > 0 && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="gap-1"
+                  disabled={isRunning}
+                  onClick={() => {
+                    setUploads([]);
+                    setRunRows(null);
+                    setTiming(null);
+                  }}
+                >
+                  <X className="h-4 w-4" /> Clear
+                </Button>
+              )}
+            </div>
+            {pairing.ambiguous.length > 0 && (
+              <p className="text-xs text-muted-foreground">
+                Not paired, because several images or audio files share the name: {pairing.ambiguous.join(", ")}
+              </p>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardContent className="pt-6 space-y-4">
+            <div className="flex flex-wrap items-center gap-4">
+              {isRunning ? (
+                <Button
+                  variant="destructive"
+                  className="gap-2"
+                  onClick={() => {
+                    stopRequestedRef.current = true;
+                  }}
+                >
+                  <Square className="h-4 w-4" /> Stop
+                </Button>
+              ) : (
+                <Button className="gap-2" onClick={start} disabled={pairing.items.length === 0}>
+                  <Play className="h-4 w-4" /> {runRows ? "Run Again" : "Start"}
+                </Button>
+              )}
+              <div className="flex-1 min-w-48 space-y-1">
+                <Progress value={rows.length > 0 ? (finished / rows.length) * 100 : 0} className="h-2" />
+                <div className="flex justify-between text-xs text-muted-foreground">
+                  <span>
+                    {finished} of {rows.length} analyzed
+                    {failed > 0 && `, ${failed} failed`}
+                    {withErrors > 0 && `, ${withErrors} with errors`}
+                    {withWarnings > 0 && `, ${withWarnings} with warnings`}
+                  </span>
+                  <span>
+                    {isRunning
+                      ? etaMs !== null
+                        ? `About ${formatEta(etaMs)} left`
+                        : "Estimating time left…"
+                      : timing?.finishedAt
+                        ? `Took ${formatEta(timing.finishedAt - timing.startedAt)}`
+                        : ""}
+                  </span>
+                </div>
+              </div>
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button variant="outline" size="sm" className="gap-2" disabled={finished === 0}>
+                    <Download className="h-4 w-4" /> Export
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end">
+                  <DropdownMenuItem onSelect={() => exportAs("csv")} className="gap-2">
+                    <FileSpreadsheet className="h-4 w-4" /> CSV (one row per item)
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onSelect={() => exportAs("json")} className="gap-2">
+                    <FileJson className="h-4 w-4" /> JSON (full results)
+                  </DropdownMenuItem>
+                </DropdownMenuContent>
+              </DropdownMenu>
+            </div>
+
+            {rows.length === 0 ? (
+              <p className="text-center text-muted-foreground py-8">Add files to build the queue.</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    {sortableHead("name", "Item")}
+                    {sortableHead("emotion", "Emotion")}
+                    {sortableHead("facial", "Face")}
+                    {sortableHead("speech", "Voice")}
+                    {sortableHead("fused", "Fused")}
+                    {sortableHead("status", "Status")}
+                    {sortableHead("duration", "Time")}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {sortedRows.map(({ item, result, status }) => {
+                    const data = result?.emotionData ?? null;
+                    return (
+                      <TableRow key={item.id}>
+                        <TableCell className="max-w-64">
+                          <div className="font-medium truncate">{item.name}</div>
+                          <div className="text-xs text-muted-foreground truncate">
+                            {[item.image?.path, item.audio?.path].filter(Boolean).join(" + ")}
+                          </div>
+                          {result && result.errors.length > 0 && (
+                            <ul className="mt-1 list-disc pl-4 text-xs text-destructive">
+                              {result.errors.map((error, index) => (
+                                <li key={index} className="break-words">
+                                  {error}
+                                </li>
+                              ))}
+                            </ul>
+                          )}
+                          {result && result.warnings.length > 0 && (
+                            <ul className="mt-1 list-disc pl-4 text-xs text-amber-500">
+                              {result.warnings.map((warning, index) => (
+                                <li key={index} className="break-words">
+                                  {warning}
+                                </li>
+                              ))}
+                            </ul>
+                          )}
+                        </TableCell>
+                        <TableCell>{data && overallEmotion(data) ? emotionLabel(overallEmotion(data)) : "–"}</TableCell>
+                        <TableCell>
+                          {data?.facial ? `${emotionLabel(data.facial)}${formatPercent(data.confidence.facial)}` : "–"}
+                        </TableCell>
+                        <TableCell>
+                          {data?.speech ? `${emotionLabel(data.speech)}${formatPercent(data.confidence.speech)}` : "–"}
+                        </TableCell>
+                        <TableCell>
+                          {data?.fusion ? `${emotionLabel(data.fusion.emotion)}${formatPercent(data.fusion.confidence)}` : "–"}
+                        </TableCell>
+                        <TableCell>
+                          <Badge variant={STATUS_BADGES[status].variant} className="gap-1">
+                            {status === "running" && <Loader2 className="h-3 w-3 animate-spin" />}
+                            {STATUS_BADGES[status].label}
+                          </Badge>
+                        </TableCell>
+                        <TableCell className="text-xs text-muted-foreground">
+                          {result ? `${(result.durationMs / 1000).toFixed(1)}s` : ""}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default Batch;
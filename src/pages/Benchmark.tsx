@@ -0,0 +1,199 @@
+import React, { useState } from "react";
+import { Link } from "react-router-dom";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { toast } from "@/components/ui/use-toast";
+import { ArrowLeft, Download, Gauge, Loader2 } from "lucide-react";
+import { getBackendPreference } from "@/hooks/use-tf-backend";
+import { downloadJson } from "@/utils/download";
+import type { BackendBenchmark, BenchmarkStage, TimingStats } from "@/utils/inferenceBenchmark";
+import { inferenceClient } from "@/utils/inferenceClient";
+import { BACKEND_LABELS, BACKEND_ORDER, BackendName } from "@/utils/tfBackend";
+
+const ITERATION_OPTIONS = [5, 10, 25, 50];
+
+const STAGES: { id: BenchmarkStage; label: string }[] = [
+  { id: "preprocessing", label: "Preprocessing" },
+  { id: "inference", label: "Inference" },
+  { id: "postprocessing", label: "Post-processing" },
+];
+
+const formatMs = (value: number | null) => (value === null ? "–" : `${value.toFixed(value < 10 ? 2 : 1)} ms`);
+
+const TimingCell: React.FC<{ stats: TimingStats }> = ({ stats }) => (
+  <TableCell className="text-right font-mono text-xs">
+    <div>{formatMs(stats.mean)}</div>
+    <div className="text-muted-foreground">
+      median {formatMs(stats.median)} · {formatMs(stats.min)}–{formatMs(stats.max)}
+    </div>
+  </TableCell>
+);
+
+// Times every model on each TF.js backend, on the same synthetic inputs
+const Benchmark = () => {
+  const [backends, setBackends] = useState<BackendName[]>(BACKEND_ORDER);
+  const [iterations, setIterations] = useState(10);
+  const [running, setRunning] = useState<BackendName | null>(null);
+  const [results, setResults] = useState<BackendBenchmark[]>([]);
+  const [finishedAt, setFinishedAt] = useState<Date | null>(null);
+
+  const toggleBackend = (name: BackendName, checked: boolean) => {
+    setBackends((previous) =>
+      BACKEND_ORDER.filter((backend) => (backend === name ? checked : previous.includes(backend)))
+    );
+  };
+
+  const runBenchmark = async () => {
+    setResults([]);
+    setFinishedAt(null);
+    try {
+      for (const backend of backends) {
+        setRunning(backend);
+        const result = await inferenceClient.benchmark(backend, iterations);
+        setResults((previous) => [...previous, result]);
+      }
+      setFinishedAt(new Date());
+    } catch (error) {
+      console.error("Benchmark failed:", error);
+      toast({
+        title: "Benchmark failed",
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive",
+      });
+    } finally {
+      setRunning(null);
+      // Go back to the backend the app normally runs on
+      inferenceClient.setBackend(getBackendPreference()).catch((error) => {
+        console.error("Restoring the TensorFlow.js backend failed:", error);
+      });
+    }
+  };
+
+  const exportResults = () => {
+    const generatedAt = finishedAt ?? new Date();
+    downloadJson(
+      { generatedAt: generatedAt.toISOString(), userAgent: navigator.userAgent, iterations, results },
+      `emotion-benchmark-${generatedAt.toISOString().replace(/[:.]/g, "-")}.json`
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-background to-slate-900">
+      <div className="container max-w-5xl py-8 space-y-6">
+        <div className="flex items-center justify-between">
+          <Button variant="ghost" size="sm" className="gap-1" asChild>
+            <Link to="/">
+              <ArrowLeft className="h-4 w-4" /> Back
+            </Link>
+          </Button>
+        </div>
+        <div className="text-center">
+          <h1 className="text-3xl font-bold mb-2">Model Benchmark</h1>
+          <p className="text-muted-foreground">
+            Time preprocessing, inference and post-processing for every model on each TensorFlow.js backend
+          </p>
+        </div>
+
+        <Card>
+          <CardContent className="pt-6 flex flex-wrap items-center gap-6">
+            <div className="flex items-center gap-4">
+              {BACKEND_ORDER.map((name) => (
+                <div key={name} className="flex items-center gap-2">
+                  <Checkbox
+                    id={`backend-${name}`}
+                    checked={backends.includes(name)}
+                    onCheckedChange={(checked) => toggleBackend(name, checked === true)}
+                    disabled={running !== null}
+                  />
+                  <Label htmlFor={`backend-${name}`}>{BACKEND_LABELS[name]}</Label>
+                </div>
+              ))}
+            </div>
+            <div className="flex items-center gap-2">
+              <Label className="text-sm">Iterations</Label>
+              <Select
+                value={String(iterations)}
+                onValueChange={(value) => setIterations(Number(value))}
+                disabled={running !== null}
+              >
+                <SelectTrigger className="h-8 w-20">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {ITERATION_OPTIONS.map((option) => (
+                    <SelectItem key={option} value={String(option)}>
+                      {option}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex gap-2 ml-auto">
+              <Button onClick={runBenchmark} disabled={running !== null || backends.length === 0} className="gap-2">
+                {running ? <Loader2 className="h-4 w-4 animate-spin" /> : <Gauge className="h-4 w-4" />}
+                {running ? `Running on ${BACKEND_LABELS[running]}…` : "Run Benchmark"}
+              </Button>
+              <Button variant="outline" onClick={exportResults} disabled={results.length === 0} className="gap-2">
+                <Download className="h-4 w-4" /> Export JSON
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+
+        {results.map((result) => (
+          <Card key={result.backend}>
+            <CardHeader className="pb-2">
+              <CardTitle className="text-base flex items-center justify-between">
+                {BACKEND_LABELS[result.backend]}
+                <Badge variant={result.error ? "destructive" : "secondary"}>
+                  {result.error ? "Unavailable" : `${result.iterations} iterations`}
+                </Badge>
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              {result.error ? (
+                <p className="text-sm text-destructive">{result.error}</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Model</TableHead>
+                      <TableHead className="text-right">Warm-up</TableHead>
+                      {STAGES.map((stage) => (
+                        <TableHead key={stage.id} className="text-right">
+                          {stage.label}
+                        </TableHead>
+                      ))}
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {result.models.map((model) => (
+                      <TableRow key={model.modelId}>
+                        <TableCell className="font-medium">{model.name}</TableCell>
+                        <TableCell className="text-right font-mono text-xs">{formatMs(model.warmUpMs)}</TableCell>
+                        {model.stages ? (
+                          STAGES.map((stage) => <TimingCell key={stage.id} stats={model.stages[stage.id]} />)
+                        ) : (
+                          <TableCell colSpan={STAGES.length} className="text-xs text-destructive">
+                            {model.error}
+                          </TableCell>
+                        )}
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default Benchmark;
@@ -0,0 +1,232 @@
+import React, { useCallback, useEffect, useMemo, useState } from "react";
+import { Link } from "react-router-dom";
+import { endOfDay, format, isWithinInterval, startOfDay } from "date-fns";
+import type { DateRange } from "react-day-picker";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Calendar } from "@/components/ui/calendar";
+import { Card, CardContent } from "@/components/ui/card";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { toast } from "@/components/ui/use-toast";
+import { ArrowLeft, CalendarIcon, Loader2, Trash2, X } from "lucide-react";
+import ExportMenu from "@/components/ExportMenu";
+import SessionImporter from "@/components/SessionImporter";
+import { overallEmotion } from "@/utils/emotionAnalysis";
+import { CANONICAL_EMOTIONS, EMOTION_CHART_CONFIG, Emotion } from "@/utils/emotionLabels";
+import { AnalysisSession, deleteSession, listSessions } from "@/utils/sessionHistory";
+
+const ALL_EMOTIONS = "all";
+
+const emotionLabel = (emotion: string) => EMOTION_CHART_CONFIG[emotion as Emotion]?.label ?? emotion;
+
+const formatConfidence = (value: number | null) => (value === null ? "" : ` ${Math.round(value * 100)}%`);
+
+// Matches when either modality or the fused result found the emotion
+const hasEmotion = (session: AnalysisSession, emotion: string) => {
+  const { facial, speech, fusion } = session.emotionData;
+  return [facial, speech, fusion?.emotion].includes(emotion);
+};
+
+const formatRange = (range: DateRange | undefined) => {
+  if (!range?.from) return "Any date";
+  if (!range.to || range.to.getTime() === range.from.getTime()) return format(range.from, "PP");
+  return `${format(range.from, "PP")} – ${format(range.to, "PP")}`;
+};
+
+// Every saved analysis, newest first, with filters by emotion and date
+const History = () => {
+  const [sessions, setSessions] = useState<AnalysisSession[] | null>(null);
+  const [emotion, setEmotion] = useState<string>(ALL_EMOTIONS);
+  const [range, setRange] = useState<DateRange | undefined>();
+
+  const refreshSessions = useCallback(() => {
+    listSessions()
+      .then(setSessions)
+      .catch((error) => {
+        console.error("Reading the session history failed:", error);
+        setSessions([]);
+        toast({
+          title: "Could not read the history",
+          description: error instanceof Error ? error.message : String(error),
+          variant: "destructive",
+        });
+      });
+  }, []);
+
+  useEffect(refreshSessions, [refreshSessions]);
+
+  const filtered = useMemo(() => {
+    if (!sessions) return [];
+    return sessions.filter((session) => {
+      if (emotion !== ALL_EMOTIONS && !hasEmotion(session, emotion)) return false;
+      if (range?.from) {
+        const interval = { start: startOfDay(range.from), end: endOfDay(range.to ?? range.from) };
+        if (!isWithinInterval(new Date(session.createdAt), interval)) return false;
+      }
+      return true;
+    });
+  }, [sessions, emotion, range]);
+
+  const handleDelete = async (session: AnalysisSession) => {
+    try {
+      await deleteSession(session.id);
+      setSessions((previous) => previous?.filter((item) => item.id !== session.id) ?? null);
+    } catch (error) {
+      console.error("Deleting the session failed:", error);
+      toast({
+        title: "Could not delete the session",
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive",
+      });
+    }
+  };
+
+  const filtersActive = emotion !== ALL_EMOTIONS || Boolean(range?.from);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-background to-slate-900">
+      <div className="container max-w-5xl py-8 space-y-6">
+        <Button variant="ghost" size="sm" className="gap-1" asChild>
+          <Link to="/">
+            <ArrowLeft className="h-4 w-4" /> Back
+          </Link>
+        </Button>
+        <div className="text-center">
+          <h1 className="text-3xl font-bold mb-2">History</h1>
+          <p className="text-muted-foreground">Every analysis is saved in this browser</p>
+        </div>
+
+        <Card>
+          <CardContent className="pt-6 flex flex-wrap items-center gap-4">
+            <Select value={emotion} onValueChange={setEmotion}>
+              <SelectTrigger className="h-9 w-44">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_EMOTIONS}>All emotions</SelectItem>
+                {CANONICAL_EMOTIONS.map((name) => (
+                  <SelectItem key={name} value={name}>
+                    {emotionLabel(name)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Popover>
+              <PopoverTrigger asChild>
+                <Button variant="outline" size="sm" className="h-9 gap-2 font-normal">
+                  <CalendarIcon className="h-4 w-4" /> {formatRange(range)}
+                </Button>
+              </PopoverTrigger>
+              <PopoverContent className="w-auto p-0" align="start">
+                <Calendar mode="range" selected={range} onSelect={setRange} numberOfMonths={2} initialFocus />
+              </PopoverContent>
+            </Popover>
+            {filtersActive && (
+              <Button
+                variant="ghost"
+                size="sm"
+                className="gap-1"
+                onClick={() => {
+                  setEmotion(ALL_EMOTIONS);
+                  setRange(undefined);
+                }}
+              >
+                <X className="h-4 w-4" /> Clear filters
+              </Button>
+            )}
+            {sessions && (
+              <span className="ml-auto text-sm text-muted-foreground">
+                {filtered.length} of {sessions.length} sessions
+              </span>
+            )}
+            <SessionImporter onImported={(report) => report.imported > 0 && refreshSessions()} />
+            <ExportMenu sessions={filtered} label={filtersActive ? "Export filtered" : "Export all"} />
+          </CardContent>
+        </Card>
+
+        {!sessions ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : filtered.length === 0 ? (
+          <p className="text-center text-muted-foreground py-12">
+            {sessions.length === 0
+              ? "No sessions yet. Run an analysis and it will show up here."
+              : "No sessions match the filters."}
+          </p>
+        ) : (
+          <ul className="space-y-3">
+            {filtered.map((session) => {
+              const { facial, speech, confidence, source } = session.emotionData;
+              const overall = overallEmotion(session.emotionData);
+              return (
+                <li key={session.id}>
+                  <Card>
+                    <CardContent className="p-3 flex items-center gap-4">
+                      <Link to={`/history/${session.id}`} className="flex items-center gap-4 flex-1 min-w-0">
+                        <img
+                          src={session.thumbnail}
+                          alt=""
+                          className="h-16 w-16 rounded object-cover shrink-0"
+                        />
+                        <div className="min-w-0 space-y-1">
+                          <div className="flex items-center gap-2">
+                            <span className="font-medium">{format(new Date(session.createdAt), "PPp")}</span>
+                            {overall && <Badge>{emotionLabel(overall)}</Badge>}
+                            {(source.facial === "fallback" || source.speech === "fallback") && (
+                              <Badge variant="outline">Demo data</Badge>
+                            )}
+                          </div>
+                          <div className="text-xs text-muted-foreground">
+                            Face: {facial ? `${emotionLabel(facial)}${formatConfidence(confidence.facial)}` : "–"}
+                            {" · "}
+                            Voice: {speech ? `${emotionLabel(speech)}${formatConfidence(confidence.speech)}` : "–"}
+                          </div>
+                          {session.notes && <p className="text-xs truncate">{session.notes}</p>}
+                        </div>
+                      </Link>
+                      <AlertDialog>
+                        <AlertDialogTrigger asChild>
+                          <Button variant="ghost" size="icon" className="h-8 w-8" title="Delete session">
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </AlertDialogTrigger>
+                        <AlertDialogContent>
+                          <AlertDialogHeader>
+                            <AlertDialogTitle>Delete this session?</AlertDialogTitle>
+                            <AlertDialogDescription>
+                              The image, recording and results from{" "}
+                              {format(new Date(session.createdAt), "PPp")} are removed from this browser.
+                            </AlertDialogDescription>
+                          </AlertDialogHeader>
+                          <AlertDialogFooter>
+                            <AlertDialogCancel>Cancel</AlertDialogCancel>
+                            <AlertDialogAction onClick={() => handleDelete(session)}>Delete</AlertDialogAction>
+                          </AlertDialogFooter>
+                        </AlertDialogContent>
+                      </AlertDialog>
+                    </CardContent>
+                  </Card>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default History;
@@ -0,0 +1,236 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { Link, useNavigate, useParams } from "react-router-dom";
+import { format } from "date-fns";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Textarea } from "@/components/ui/textarea";
+import { toast } from "@/components/ui/use-toast";
+import { ArrowLeft, Loader2, RefreshCw, Save, Trash2 } from "lucide-react";
+import EmotionResults from "@/components/EmotionResults";
+import { useDemoMode } from "@/hooks/use-demo-mode";
+import { useModelRegistry } from "@/hooks/use-model-registry";
+import { analyzeCapture } from "@/utils/emotionAnalysis";
+import {
+  AnalysisSession,
+  deleteSession,
+  describeModels,
+  getSession,
+  updateSession,
+} from "@/utils/sessionHistory";
+
+const showError = (title: string) => (error: unknown) => {
+  console.error(`${title}:`, error);
+  toast({
+    title,
+    description: error instanceof Error ? error.message : String(error),
+    variant: "destructive",
+  });
+};
+
+// One saved analysis: its inputs, results, the models behind them and notes
+const HistorySession = () => {
+  const { sessionId } = useParams();
+  const navigate = useNavigate();
+  const models = useModelRegistry();
+  const [demoMode] = useDemoMode();
+  const [session, setSession] = useState<AnalysisSession | null | undefined>(undefined);
+  const [notes, setNotes] = useState("");
+  const [isAnalyzing, setIsAnalyzing] = useState(false);
+
+  useEffect(() => {
+    const id = Number(sessionId);
+    if (!Number.isInteger(id)) {
+      setSession(null);
+      return;
+    }
+    getSession(id)
+      .then((loaded) => {
+        setSession(loaded);
+        setNotes(loaded?.notes ?? "");
+      })
+      .catch((error) => {
+        setSession(null);
+        showError("Could not read the session")(error);
+      });
+  }, [sessionId]);
+
+  const audio = session?.audio;
+  const audioUrl = useMemo(() => (audio ? URL.createObjectURL(audio) : null), [audio]);
+  useEffect(() => () => {
+    if (audioUrl) URL.revokeObjectURL(audioUrl);
+  }, [audioUrl]);
+
+  if (session === undefined) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  const saveNotes = () => {
+    if (!session) return;
+    updateSession(session.id, { notes })
+      .then((updated) => {
+        setSession(updated);
+        toast({ title: "Notes saved" });
+      })
+      .catch(showError("Could not save the notes"));
+  };
+
+  // Runs the stored image and recording through the models loaded now
+  const reanalyze = async () => {
+    if (!session) return;
+    setIsAnalyzing(true);
+    try {
+      const { emotionData, keypoints, errors } = await analyzeCapture(session.thumbnail, session.audio, { demoMode });
+      const updated = await updateSession(session.id, {
+        emotionData,
+        keypoints,
+        analyzedAt: new Date().toISOString(),
+        models: describeModels(models),
+        demoMode,
+      });
+      setSession(updated);
+      toast(
+        errors.facial !== null || errors.speech !== null
+          ? { title: "Re-analysis partially complete", description: "See details in the console." }
+          : { title: "Session re-analyzed" }
+      );
+    } catch (error) {
+      showError("Re-analysis failed")(error);
+    } finally {
+      setIsAnalyzing(false);
+    }
+  };
+
+  const remove = () => {
+    if (!session) return;
+    deleteSession(session.id)
+      .then(() => navigate("/history"))
+      .catch(showError("Could not delete the session"));
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-background to-slate-900">
+      <div className="container max-w-5xl py-8 space-y-6">
+        <Button variant="ghost" size="sm" className="gap-1" asChild>
+          <Link to="/history">
+            <ArrowLeft className="h-4 w-4" /> History
+          </Link>
+        </Button>
+
+        {!session ? (
+          <p className="text-center text-muted-foreground py-12">This session does not exist or was deleted.</p>
+        ) : (
+          <>
+            <div className="flex flex-wrap items-center gap-3">
+              <div className="flex-1">
+                <h1 className="text-2xl font-bold">{format(new Date(session.createdAt), "PPpp")}</h1>
+                {session.analyzedAt !== session.createdAt && (
+                  <p className="text-sm text-muted-foreground">
+                    Re-analyzed {format(new Date(session.analyzedAt), "PPp")}
+                  </p>
+                )}
+              </div>
+              <Button onClick={reanalyze} disabled={isAnalyzing} className="gap-2">
+                {isAnalyzing ? <Loader2 className="h-4 w-4 animate-spin" /> : <RefreshCw className="h-4 w-4" />}
+                Re-analyze
+              </Button>
+              <AlertDialog>
+                <AlertDialogTrigger asChild>
+                  <Button variant="outline" className="gap-2">
+                    <Trash2 className="h-4 w-4" /> Delete
+                  </Button>
+                </AlertDialogTrigger>
+                <AlertDialogContent>
+                  <AlertDialogHeader>
+                    <AlertDialogTitle>Delete this session?</AlertDialogTitle>
+                    <AlertDialogDescription>
+                      The image, recording, results and notes are removed from this browser.
+                    </AlertDialogDescription>
+                  </AlertDialogHeader>
+                  <AlertDialogFooter>
+                    <AlertDialogCancel>Cancel</AlertDialogCancel>
+                    <AlertDialogAction onClick={remove}>Delete</AlertDialogAction>
+                  </AlertDialogFooter>
+                </AlertDialogContent>
+              </AlertDialog>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              <Card>
+                <CardHeader className="pb-2">
+                  <CardTitle className="text-base">Recording</CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  {audioUrl && <audio controls src={audioUrl} className="w-full" />}
+                  <div className="space-y-2">
+                    <Textarea
+                      value={notes}
+                      onChange={(event) => setNotes(event.target.value)}
+                      placeholder="Notes about this session"
+                      rows={4}
+                    />
+                    <Button
+                      size="sm"
+                      variant="secondary"
+                      className="gap-2"
+                      onClick={saveNotes}
+                      disabled={notes === session.notes}
+                    >
+                      <Save className="h-4 w-4" /> Save Notes
+                    </Button>
+                  </div>
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader className="pb-2">
+                  <CardTitle className="text-base flex items-center justify-between">
+                    Models Used
+                    {session.demoMode && <Badge variant="outline">Demo mode</Badge>}
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <ul className="divide-y">
+                    {session.models.map((model) => (
+                      <li key={model.id} className="py-1.5 flex items-center gap-3 text-sm">
+                        <span className="flex-1">{model.name}</span>
+                        <span className="text-xs text-muted-foreground truncate">{model.version}</span>
+                        <Badge variant={model.ready ? "secondary" : "destructive"}>
+                          {model.ready ? (model.origin === "uploaded" ? "Uploaded" : "Bundled") : "Not loaded"}
+                        </Badge>
+                      </li>
+                    ))}
+                  </ul>
+                </CardContent>
+              </Card>
+            </div>
+
+            <EmotionResults
+              emotionData={session.emotionData}
+              capturedImage={session.thumbnail}
+              keypoints={session.keypoints}
+              exportSession={session}
+            />
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default HistorySession;
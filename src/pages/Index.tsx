@@ -1,45 +1,70 @@
 
-import React, { useState, useRef, useEffect } from "react";
+import React, { useState, useRef, useEffect, useMemo } from "react";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
 import { Progress } from "@/components/ui/progress";
+import { Switch } from "@/components/ui/switch";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { toast } from "@/components/ui/use-toast";
-import { Mic, Camera, Loader2 } from "lucide-react";
+import { Mic, Camera, Loader2, History, Layers } from "lucide-react";
+import { Link } from "react-router-dom";
 import ImageCapture from "@/components/ImageCapture";
 import AudioRecorder from "@/components/AudioRecorder";
+import AudioTrimmer from "@/components/AudioTrimmer";
 import EmotionResults from "@/components/EmotionResults";
-import { predictFacialEmotion, predictSpeechEmotion } from "@/utils/modelLoader";
-
-type EmotionData = {
-  facial: string | null;
-  speech: string | null;
-  confidence: {
-    facial: number | null;
-    speech: number | null;
-  };
-};
+import ModelHealthPanel from "@/components/ModelHealthPanel";
+import LiveAnalysis from "@/components/LiveAnalysis";
+import { useDemoMode } from "@/hooks/use-demo-mode";
+import { useModelRegistry } from "@/hooks/use-model-registry";
+import { ANALYSIS_WINDOW_SECONDS, decodeAudioBlob, DecodedAudio } from "@/utils/audioFeatures";
+import { analyzeCapture, createEmptyEmotionData, EmotionData } from "@/utils/emotionAnalysis";
+import { FacialKeypoint, predictFacialKeypoints } from "@/utils/modelLoader";
+import type { ExportableSession } from "@/utils/sessionExport";
+import {
+  createSessionUid,
+  createThumbnail,
+  describeModels,
+  NewAnalysisSession,
+  saveSession,
+} from "@/utils/sessionHistory";
 
 const Index = () => {
   const [isRecording, setIsRecording] = useState(false);
   const [recordingTime, setRecordingTime] = useState(0);
   const [capturedImage, setCapturedImage] = useState<string | null>(null);
+  // Undefined while detection is still running for the current image
+  const [keypoints, setKeypoints] = useState<FacialKeypoint[] | null | undefined>(undefined);
+  const latestImageRef = useRef<string | null>(null);
   const [audioBlob, setAudioBlob] = useState<Blob | null>(null);
-  const [emotionData, setEmotionData] = useState<EmotionData>({
-    facial: null,
-    speech: null,
-    confidence: {
-      facial: null,
-      speech: null,
-    },
-  });
+  // An uploaded file longer than the analysis window; audioBlob holds the trimmed part
+  const [longAudio, setLongAudio] = useState<{ file: File; decoded: DecodedAudio } | null>(null);
+  const [emotionData, setEmotionData] = useState<EmotionData>(createEmptyEmotionData());
+  // The analysis on the results tab, as saved to history (for exporting)
+  const [lastSession, setLastSession] = useState<ExportableSession | null>(null);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [activeTab, setActiveTab] = useState("capture");
+  const [demoMode, setDemoMode] = useDemoMode();
+  const models = useModelRegistry();
 
   const handleImageCapture = (imageData: string) => {
     setCapturedImage(imageData);
-    // Don't analyze immediately, wait for the user to press the analyze button
+    setKeypoints(imageData ? undefined : null);
+    latestImageRef.current = imageData;
+    // Don't analyze emotions immediately, wait for the user to press the analyze button.
+    // Landmarks are shown right away so the face alignment can be checked first.
+    if (imageData) {
+      predictFacialKeypoints(imageData)
+        .then((points) => {
+          // Ignore results for an image that has since been retaken
+          if (latestImageRef.current === imageData) setKeypoints(points);
+        })
+        .catch((error) => {
+          console.error("Error detecting facial keypoints:", error);
+          if (latestImageRef.current === imageData) setKeypoints(null);
+        });
+    }
   };
 
   const handleAudioRecorded = (blob: Blob) => {
@@ -48,80 +73,78 @@ const Index = () => {
     // In a real implementation, this would trigger audio analysis
   };
 
+  const handleAudioUpload = async (file: File) => {
+    try {
+      const decoded = await decodeAudioBlob(file);
+      if (decoded.samples.length / decoded.sampleRate > ANALYSIS_WINDOW_SECONDS) {
+        // The trimmer sets audioBlob to the selected window
+        setLongAudio({ file, decoded });
+      } else {
+        setLongAudio(null);
+        setAudioBlob(file);
+      }
+      setEmotionData(createEmptyEmotionData());
+      setLastSession(null);
+    } catch (error) {
+      console.error("Decoding the audio file failed:", error);
+      toast({
+        title: "Could not read the audio file",
+        description: `${file.name} could not be decoded by this browser.`,
+        variant: "destructive",
+      });
+    }
+  };
+
   const handleStartRecording = () => {
+    setLongAudio(null);
     setIsRecording(true);
     setRecordingTime(0);
-    setEmotionData({
-      facial: null,
-      speech: null,
-      confidence: {
-        facial: null,
-        speech: null,
-      },
-    });
+    setEmotionData(createEmptyEmotionData());
+    setLastSession(null);
   };
 
   const handleAnalyzeData = async () => {
     if (!capturedImage || !audioBlob) {
       toast({
         title: "Missing data",
-        description: "Please capture an image and record audio before analyzing.",
+        description: "Please capture or upload an image and audio before analyzing.",
         variant: "destructive",
       });
       return;
     }
 
     setIsAnalyzing(true);
-    let hasErrors = false;
 
     try {
-      // Initialize with empty results in case any step fails
-      let newEmotionData: EmotionData = {
-        facial: null,
-        speech: null,
-        confidence: {
-          facial: null,
-          speech: null,
-        },
-      };
-      
-      // Get facial emotion from the model
-      try {
-        const facialEmotionResult = await predictFacialEmotion(capturedImage);
-        console.log("Facial emotion detected:", facialEmotionResult);
-        newEmotionData.facial = facialEmotionResult.emotion;
-        newEmotionData.confidence.facial = facialEmotionResult.confidence;
-      } catch (error) {
-        console.error("Error detecting facial emotion:", error);
+      // Pending keypoints are detected as part of the analysis rather than
+      // falling back to a centre crop
+      const { emotionData: newEmotionData, keypoints: usedKeypoints, errors } = await analyzeCapture(
+        capturedImage,
+        audioBlob,
+        { keypoints, demoMode }
+      );
+      if (latestImageRef.current === capturedImage) setKeypoints(usedKeypoints);
+      if (errors.facial !== null) {
         toast({
           title: "Facial emotion detection failed",
           description: "Could not analyze facial emotion. Please try again.",
           variant: "destructive",
         });
-        hasErrors = true;
       }
-      
-      // Get speech emotion from the model
-      try {
-        const speechEmotionResult = await predictSpeechEmotion(audioBlob);
-        console.log("Speech emotion detected:", speechEmotionResult);
-        newEmotionData.speech = speechEmotionResult.emotion;
-        newEmotionData.confidence.speech = speechEmotionResult.confidence;
-      } catch (error) {
-        console.error("Error detecting speech emotion:", error);
+      if (errors.speech !== null) {
         toast({
           title: "Speech emotion detection failed",
           description: "Could not analyze speech emotion. Please try again.",
           variant: "destructive",
         });
-        hasErrors = true;
       }
+      const hasErrors = errors.facial !== null || errors.speech !== null;
 
       // Update the emotion data even if there were some errors
       setEmotionData(newEmotionData);
       
       // Switch to results tab if we have at least some data
-      if (newEmotionData.facial || newEmotionData.speech) {
+      if (newEmotionData.facial || newEmotionData.speech || newEmotionData.unavailable.facial || newEmotionData.unavailable.speech) {
         setActiveTab("results");
       }
 
@@ -131,12 +154,24 @@ const Index = () => {
           description: "Some parts of the analysis couldn't be completed. See details in the console.",
           variant: "default",
         });
+      } else if (newEmotionData.unavailable.facial || newEmotionData.unavailable.speech) {
+        toast({
+          title: "Analysis incomplete",
+          description: "Some models are unavailable. Turn on demo mode to see placeholder results instead.",
+        });
+      } else if (newEmotionData.source.facial === "fallback" || newEmotionData.source.speech === "fallback") {
+        toast({
+          title: "Analysis complete with demo data",
+          description: "Some results are synthetic placeholders because a model is unavailable.",
+        });
       } else {
         toast({
           title: "Analysis complete",
           description: "Emotion analysis has been completed successfully.",
         });
       }
+
+      saveToHistory(capturedImage, audioBlob, newEmotionData, usedKeypoints);
     } catch (error) {
       console.error("General analysis error:", error);
       toast({
@@ -149,6 +184,48 @@ const Index = () => {
     }
   };
 
+  // Every analysis is kept on the history page; failing to save it does not
+  // affect the results on screen
+  // `points` are the landmarks the face crop was based on
+  const saveToHistory = async (
+    image: string,
+    audio: Blob,
+    data: EmotionData,
+    points: FacialKeypoint[] | null
+  ) => {
+    const now = new Date().toISOString();
+    let session: NewAnalysisSession | null = null;
+    try {
+      session = {
+        uid: createSessionUid(),
+        createdAt: now,
+        analyzedAt: now,
+        thumbnail: await createThumbnail(image),
+        audio,
+        keypoints: points,
+        emotionData: data,
+        models: describeModels(models),
+        demoMode,
+        notes: "",
+      };
+      setLastSession(await saveSession(session));
+    } catch (error) {
+      console.error("Saving the session to history failed:", error);
+      // Still exportable, just not kept
+      setLastSession(session);
+      toast({
+        title: "Session not saved to history",
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive",
+      });
+    }
+  };
+
+  const audioUrl = useMemo(() => (audioBlob ? URL.createObjectURL(audioBlob) : null), [audioBlob]);
+  useEffect(() => () => {
+    if (audioUrl) URL.revokeObjectURL(audioUrl);
+  }, [audioUrl]);
+
   useEffect(() => {
     if (isRecording) {
       const intervalId = setInterval(() => {
@@ -174,9 +251,33 @@ const Index = () => {
           Detect emotions from facial expressions and speech using advanced AI models
         </p>
 
+        <div className="mb-8 space-y-3">
+          <ModelHealthPanel />
+          <div className="flex items-center justify-end gap-2">
+            <Button variant="ghost" size="sm" className="gap-1" asChild>
+              <Link to="/history">
+                <History className="h-4 w-4" /> History
+              </Link>
+            </Button>
+            <Button variant="ghost" size="sm" className="mr-auto gap-1" asChild>
+              <Link to="/batch">
+                <Layers className="h-4 w-4" /> Batch
+              </Link>
+            </Button>
+            <Switch id="demo-mode" checked={demoMode} onCheckedChange={setDemoMode} />
+            <Label htmlFor="demo-mode" className="text-sm">
+              Demo mode
+            </Label>
+            <span className="text-xs text-muted-foreground">
+              {demoMode ? "Synthetic results fill in for unavailable models" : "Only real model output is shown"}
+            </span>
+          </div>
+        </div>
+
         <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
-          <TabsList className="grid grid-cols-2 mb-8">
+          <TabsList className="grid grid-cols-3 mb-8">
             <TabsTrigger value="capture">Capture & Analyze</TabsTrigger>
+            <TabsTrigger value="live">Live</TabsTrigger>
             <TabsTrigger value="results">Results</TabsTrigger>
           </TabsList>
 
@@ -184,11 +285,12 @@ const Index = () => {
             <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
               <Card className="p-4">
                 <h2 className="text-xl font-semibold mb-4 flex items-center">
-                  <Camera className="mr-2 h-5 w-5" /> Image Capture (96x96)
+                  <Camera className="mr-2 h-5 w-5" /> Image Capture
                 </h2>
                 <ImageCapture 
                   onCapture={handleImageCapture} 
                   capturedImage={capturedImage}
+                  keypoints={keypoints}
                 />
               </Card>
 
@@ -200,12 +302,18 @@ const Index = () => {
                   isRecording={isRecording}
                   onRecordingComplete={handleAudioRecorded}
                   recordingTime={recordingTime}
+                  onUpload={handleAudioUpload}
                 />
 
-                {audioBlob && !isRecording && (
+                {longAudio && !isRecording && (
+                  <div className="mt-4">
+                    <AudioTrimmer file={longAudio.file} decoded={longAudio.decoded} onTrim={setAudioBlob} />
+                  </div>
+                )}
+
+                {audioUrl && !isRecording && (
                   <div className="mt-4">
-                    <audio controls className="w-full">
-                      <source src={URL.createObjectURL(audioBlob)} type="audio/webm" />
+                    <audio controls className="w-full" src={audioUrl}>
                       Your browser does not support the audio element.
                     </audio>
                   </div>
@@ -252,10 +360,16 @@ const Index = () => {
             </div>
           </TabsContent>
 
+          <TabsContent value="live">
+            <LiveAnalysis demoMode={demoMode} />
+          </TabsContent>
+
           <TabsContent value="results">
             <EmotionResults 
               emotionData={emotionData}
               capturedImage={capturedImage}
+              keypoints={keypoints}
+              exportSession={lastSession}
             />
           </TabsContent>
         </Tabs>
@@ -0,0 +1,206 @@
+import React, { useCallback, useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { toast } from "@/components/ui/use-toast";
+import { ArrowLeft, RotateCcw, Trash2 } from "lucide-react";
+import ModelUploader from "@/components/ModelUploader";
+import { useModelRegistry } from "@/hooks/use-model-registry";
+import { inferenceClient } from "@/utils/inferenceClient";
+import type { ModelEntry } from "@/utils/modelRegistry";
+import type { StoredModels, StoredModelVersion } from "@/utils/modelStore";
+
+const showError = (title: string) => (error: unknown) => {
+  console.error(`${title}:`, error);
+  toast({
+    title,
+    description: error instanceof Error ? error.message : String(error),
+    variant: "destructive",
+  });
+};
+
+const formatDate = (iso: string) => new Date(iso).toLocaleString();
+
+// Replace the bundled models with user-supplied ones, switch between the
+// versions kept in the browser, or restore the bundled models
+const Models = () => {
+  const models = useModelRegistry();
+  const [stored, setStored] = useState<StoredModels | null>(null);
+  const [busyVersion, setBusyVersion] = useState<string | null>(null);
+
+  const refreshStored = useCallback(() => {
+    inferenceClient.listStoredModels().then(setStored, showError("Could not read the stored models"));
+  }, []);
+
+  useEffect(refreshStored, [refreshStored]);
+
+  const handleRestore = (model: ModelEntry) => {
+    inferenceClient
+      .restoreBundledModel(model.id)
+      .then(refreshStored, showError(`Could not restore ${model.name}`));
+  };
+
+  const runVersionAction = (version: StoredModelVersion, action: () => Promise<StoredModels>, failure: string) => {
+    setBusyVersion(version.id);
+    action()
+      .then(setStored, showError(failure))
+      .finally(() => setBusyVersion(null));
+  };
+
+  const handleActivate = (version: StoredModelVersion) =>
+    runVersionAction(
+      version,
+      () => inferenceClient.activateModelVersion(version.id),
+      `Could not switch to ${version.name} v${version.version}`
+    );
+
+  const handleDelete = (version: StoredModelVersion) =>
+    runVersionAction(
+      version,
+      () => inferenceClient.deleteModelVersion(version.id),
+      `Could not delete ${version.name} v${version.version}`
+    );
+
+  const versionsOf = (model: ModelEntry) => stored?.versions.filter((version) => version.modelId === model.id) ?? [];
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-background to-slate-900">
+      <div className="container max-w-5xl py-8 space-y-6">
+        <Button variant="ghost" size="sm" className="gap-1" asChild>
+          <Link to="/">
+            <ArrowLeft className="h-4 w-4" /> Back
+          </Link>
+        </Button>
+        <div className="text-center">
+          <h1 className="text-3xl font-bold mb-2">Models</h1>
+          <p className="text-muted-foreground">Load your own trained models in place of the bundled ones</p>
+        </div>
+
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-base">Active Models</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <ul className="divide-y">
+              {models.map((model) => (
+                <li key={model.id} className="py-2 flex items-center gap-3 text-sm">
+                  <span className="font-medium flex-1">{model.name}</span>
+                  <span className="text-xs text-muted-foreground truncate">{model.version}</span>
+                  <Badge variant={model.origin === "uploaded" ? "default" : "outline"}>
+                    {model.origin === "uploaded" ? "Uploaded" : "Bundled"}
+                  </Badge>
+                  {model.origin === "uploaded" && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-7 w-7"
+                      onClick={() => handleRestore(model)}
+                      title={`Restore the bundled ${model.name}`}
+                    >
+                      <RotateCcw className="h-4 w-4" />
+                    </Button>
+                  )}
+                </li>
+              ))}
+            </ul>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-base">Stored Versions</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {stored && stored.versions.length === 0 && (
+              <p className="text-sm text-muted-foreground">
+                Uploaded models are kept in this browser. None have been uploaded yet.
+              </p>
+            )}
+            {models
+              .filter((model) => versionsOf(model).length > 0)
+              .map((model) => (
+                <div key={model.id}>
+                  <h3 className="text-sm font-medium mb-1">{model.name}</h3>
+                  <ul className="divide-y">
+                    {versionsOf(model).map((version) => {
+                      const pinned = stored?.pinned[model.id] === version.id;
+                      return (
+                        <li key={version.id} className="py-2 flex items-center gap-3 text-sm">
+                          <span className="font-mono text-xs w-8">v{version.version}</span>
+                          <span className="flex-1 min-w-0">
+                            <span className="block text-xs">{formatDate(version.uploadedAt)}</span>
+                            <span className="block text-xs text-muted-foreground truncate">
+                              {version.files.join(", ")}
+                              {version.labelSchema && ` · ${version.labelSchema.classes.length} classes`}
+                              {version.hash && ` · sha256 ${version.hash.slice(0, 12)}`}
+                            </span>
+                          </span>
+                          {pinned ? (
+                            <Badge>In use</Badge>
+                          ) : (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              className="h-7"
+                              disabled={busyVersion !== null}
+                              onClick={() => handleActivate(version)}
+                            >
+                              Use
+                            </Button>
+                          )}
+                          <AlertDialog>
+                            <AlertDialogTrigger asChild>
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                className="h-7 w-7"
+                                disabled={busyVersion !== null}
+                                title={`Delete v${version.version}`}
+                              >
+                                <Trash2 className="h-4 w-4" />
+                              </Button>
+                            </AlertDialogTrigger>
+                            <AlertDialogContent>
+                              <AlertDialogHeader>
+                                <AlertDialogTitle>
+                                  Delete {version.name} v{version.version}?
+                                </AlertDialogTitle>
+                                <AlertDialogDescription>
+                                  The stored weights are removed from this browser.
+                                  {pinned && " The bundled model is used again."}
+                                </AlertDialogDescription>
+                              </AlertDialogHeader>
+                              <AlertDialogFooter>
+                                <AlertDialogCancel>Cancel</AlertDialogCancel>
+                                <AlertDialogAction onClick={() => handleDelete(version)}>Delete</AlertDialogAction>
+                              </AlertDialogFooter>
+                            </AlertDialogContent>
+                          </AlertDialog>
+                        </li>
+                      );
+                    })}
+                  </ul>
+                </div>
+              ))}
+          </CardContent>
+        </Card>
+
+        <ModelUploader onModelsInstalled={refreshStored} />
+      </div>
+    </div>
+  );
+};
+
+export default Models;
@@ -0,0 +1,505 @@
+// Acoustic feature extraction for the speech emotion models.
+// The feature order matches `feature_names_in_` of the StandardScaler the
+// MLP and XGBoost models were trained with.
+export const AUDIO_FEATURE_NAMES = [
+  'Speech Duration',
+  'Pitch',
+  'Speech Rate',
+  'Jitter',
+  'Shimmer',
+  'MFCCs',
+  'Sentiment Score',
+] as const;
+
+// Length of a recording, about that of the training clips; longer audio is
+// trimmed to this before analysis
+export const ANALYSIS_WINDOW_SECONDS = 10;
+
+export interface AudioFeatures {
+  duration: number;       // seconds
+  pitch: number;          // mean F0 of voiced frames, Hz
+  speechRate: number;     // estimated words per minute
+  jitter: number;         // local jitter, relative (0.01 = 1%)
+  shimmer: number;        // local shimmer, relative (0.01 = 1%)
+  mfccMean: number;       // mean of MFCC 1-12 over all frames
+  sentimentScore: number; // -1..1, 0 when no transcript is available
+}
+
+// How each feature is presented. Reference ranges are the mean ± one standard
+// deviation of the training data, from the speech scaler (stdscaler.pkl), so
+// a value outside them is unusual for the models rather than for speech.
+export interface AudioFeatureInfo {
+  key: keyof AudioFeatures;
+  label: string;
+  unit: string;
+  // Multiplier from the stored value to the displayed unit
+  scale: number;
+  decimals: number;
+  reference?: { min: number; max: number };
+  description: string;
+}
+
+export const AUDIO_FEATURE_INFO: AudioFeatureInfo[] = [
+  {
+    key: 'duration',
+    label: 'Duration',
+    unit: 's',
+    scale: 1,
+    decimals: 1,
+    reference: { min: 7.0, max: 14.7 },
+    description: 'Length of the analysed recording',
+  },
+  {
+    key: 'pitch',
+    label: 'Pitch',
+    unit: 'Hz',
+    scale: 1,
+    decimals: 1,
+    reference: { min: 144, max: 258 },
+    description: 'Mean fundamental frequency of voiced speech',
+  },
+  {
+    key: 'speechRate',
+    label: 'Speech Rate',
+    unit: 'wpm',
+    scale: 1,
+    decimals: 0,
+    reference: { min: 83, max: 166 },
+    description: 'Estimated words per minute, from syllable nuclei',
+  },
+  {
+    key: 'jitter',
+    label: 'Jitter',
+    unit: '%',
+    scale: 100,
+    decimals: 2,
+    reference: { min: 2.91, max: 8.13 },
+    description: 'Cycle-to-cycle variation of the pitch period',
+  },
+  {
+    key: 'shimmer',
+    label: 'Shimmer',
+    unit: '%',
+    scale: 100,
+    decimals: 2,
+    reference: { min: 2.91, max: 8.1 },
+    description: 'Cycle-to-cycle variation of the peak amplitude',
+  },
+  {
+    key: 'mfccMean',
+    label: 'MFCC Mean',
+    unit: '',
+    scale: 1,
+    decimals: 2,
+    reference: { min: -1.61, max: 1.57 },
+    description: 'Mean of MFCC 1-12 over all frames',
+  },
+  {
+    key: 'sentimentScore',
+    label: 'Sentiment',
+    unit: '',
+    scale: 1,
+    decimals: 2,
+    reference: { min: -0.44, max: 0.45 },
+    description: 'Always 0: no transcript is available to score',
+  },
+];
+
+export interface DecodedAudio {
+  samples: Float32Array;
+  sampleRate: number;
+}
+
+const MIN_PITCH_HZ = 75;
+const MAX_PITCH_HZ = 500;
+const YIN_THRESHOLD = 0.15;
+const PITCH_FRAME_SECONDS = 0.04;
+const HOP_SECONDS = 0.01;
+const MFCC_FRAME_SECONDS = 0.025;
+const MFCC_COEFFICIENTS = 13;
+const MEL_FILTERS = 26;
+const PRE_EMPHASIS = 0.97;
+// Average number of syllables per English word, used to turn syllable
+// nuclei into a word rate.
+const SYLLABLES_PER_WORD = 1.5;
+
+export function featuresToVector(features: AudioFeatures): number[] {
+  return [
+    features.duration,
+    features.pitch,
+    features.speechRate,
+    features.jitter,
+    features.shimmer,
+    features.mfccMean,
+    features.sentimentScore,
+  ];
+}
+
+export async function decodeAudioBlob(audioBlob: Blob): Promise<DecodedAudio> {
+  const arrayBuffer = await audioBlob.arrayBuffer();
+  const audioContext = new AudioContext();
+
+  try {
+    const audioBuffer = await audioContext.decodeAudioData(arrayBuffer);
+
+    // Mix all channels down to mono
+    const samples = new Float32Array(audioBuffer.length);
+    for (let channel = 0; channel < audioBuffer.numberOfChannels; channel++) {
+      const data = audioBuffer.getChannelData(channel);
+      for (let i = 0; i < data.length; i++) {
+        samples[i] += data[i] / audioBuffer.numberOfChannels;
+      }
+    }
+
+    return { samples, sampleRate: audioBuffer.sampleRate };
+  } finally {
+    audioContext.close();
+  }
+}
+
+export function computeAudioFeatures(samples: Float32Array, sampleRate: number): AudioFeatures {
+  const duration = samples.length / sampleRate;
+  const pitchTrack = trackPitch(samples, sampleRate);
+  const voiced = pitchTrack.filter((f0) => f0 > 0);
+  const pitch = voiced.length > 0 ? voiced.reduce((a, b) => a + b, 0) / voiced.length : 0;
+  const { jitter, shimmer } = measurePerturbation(samples, sampleRate, pitchTrack);
+
+  return {
+    duration,
+    pitch,
+    speechRate: estimateSpeechRate(samples, sampleRate, pitchTrack),
+    jitter,
+    shimmer,
+    mfccMean: computeMfccMean(samples, sampleRate),
+    // Sentiment is a text feature in the training data; without a
+    // transcript we report a neutral score.
+    sentimentScore: 0,
+  };
+}
+
+// YIN fundamental frequency estimate for every hop. Unvoiced frames are 0.
+function trackPitch(samples: Float32Array, sampleRate: number): number[] {
+  const frameSize = Math.round(PITCH_FRAME_SECONDS * sampleRate);
+  const hopSize = Math.round(HOP_SECONDS * sampleRate);
+  const minLag = Math.floor(sampleRate / MAX_PITCH_HZ);
+  const maxLag = Math.min(Math.ceil(sampleRate / MIN_PITCH_HZ), Math.floor(frameSize / 2));
+  const silence = rmsThreshold(samples, frameSize, hopSize);
+  const track: number[] = [];
+  const diff = new Float32Array(maxLag + 1);
+
+  for (let start = 0; start + frameSize <= samples.length; start += hopSize) {
+    if (rms(samples, start, frameSize) < silence) {
+      track.push(0);
+      continue;
+    }
+
+    // Difference function
+    const window = frameSize - maxLag;
+    for (let lag = 1; lag <= maxLag; lag++) {
+      let sum = 0;
+      for (let i = 0; i < window; i++) {
+        const delta = samples[start + i] - samples[start + i + lag];
+        sum += delta * delta;
+      }
+      diff[lag] = sum;
+    }
+
+    // Cumulative mean normalized difference, then absolute threshold
+    let runningSum = 0;
+    let bestLag = -1;
+    for (let lag = 1; lag <= maxLag; lag++) {
+      runningSum += diff[lag];
+      diff[lag] = runningSum > 0 ? (diff[lag] * lag) / runningSum : 1;
+    }
+    for (let lag = minLag; lag <= maxLag; lag++) {
+      if (diff[lag] < YIN_THRESHOLD) {
+        while (lag + 1 <= maxLag && diff[lag + 1] < diff[lag]) lag++;
+        bestLag = lag;
+        break;
+      }
+    }
+
+    if (bestLag < 0) {
+      track.push(0);
+      continue;
+    }
+
+    // Parabolic interpolation around the minimum
+    let refinedLag = bestLag;
+    if (bestLag > 1 && bestLag < maxLag) {
+      const a = diff[bestLag - 1];
+      const b = diff[bestLag];
+      const c = diff[bestLag + 1];
+      const denominator = a + c - 2 * b;
+      if (denominator !== 0) refinedLag = bestLag + (a - c) / (2 * denominator);
+    }
+    track.push(sampleRate / refinedLag);
+  }
+
+  return track;
+}
+
+// Cycle-to-cycle jitter and shimmer from peak-picked glottal periods
+// inside voiced frames. Peaks are taken at one polarity per voiced segment
+// and refined between samples, since whole-sample peak positions alone add
+// jitter on the order of real voices.
+function measurePerturbation(
+  samples: Float32Array,
+  sampleRate: number,
+  pitchTrack: number[]
+): { jitter: number; shimmer: number } {
+  const hopSize = Math.round(HOP_SECONDS * sampleRate);
+  const periods: number[] = [];
+  const amplitudes: number[] = [];
+  let jitterSum = 0;
+  let shimmerSum = 0;
+  let pairs = 0;
+
+  let frame = 0;
+  while (frame < pitchTrack.length) {
+    if (pitchTrack[frame] === 0) {
+      frame++;
+      continue;
+    }
+
+    // Walk one voiced segment cycle by cycle
+    let segmentEnd = frame;
+    while (segmentEnd < pitchTrack.length && pitchTrack[segmentEnd] > 0) segmentEnd++;
+    const endSample = Math.min(samples.length, segmentEnd * hopSize + Math.round(PITCH_FRAME_SECONDS * sampleRate));
+
+    let previousPeak = -1;
+    let previousPeriod = 0;
+    let previousAmplitude = 0;
+    let position = frame * hopSize;
+    // +1 for positive peaks, -1 for negative ones; set by the first cycle
+    let polarity = 0;
+
+    while (position < endSample) {
+      const f0 = pitchTrack[Math.min(segmentEnd - 1, Math.floor(position / hopSize))] || pitchTrack[segmentEnd - 1];
+      const expected = sampleRate / f0;
+      const searchStart = previousPeak < 0 ? position : Math.round(previousPeak + expected * 0.8);
+      const searchEnd = Math.min(endSample, previousPeak < 0 ? position + Math.round(expected) : Math.round(previousPeak + expected * 1.2));
+      if (searchStart >= searchEnd) break;
+
+      if (polarity === 0) {
+        let strongest = searchStart;
+        for (let i = searchStart; i < searchEnd; i++) {
+          if (Math.abs(samples[i]) > Math.abs(samples[strongest])) strongest = i;
+        }
+        polarity = samples[strongest] < 0 ? -1 : 1;
+      }
+
+      let peakIndex = searchStart;
+      for (let i = searchStart; i < searchEnd; i++) {
+        if (polarity * samples[i] > polarity * samples[peakIndex]) peakIndex = i;
+      }
+      const { offset, value } = interpolatePeak(samples, peakIndex, polarity);
+      const peak = peakIndex + offset;
+      const amplitude = value;
+
+      if (previousPeak >= 0) {
+        const period = (peak - previousPeak) / sampleRate;
+        periods.push(period);
+        amplitudes.push(amplitude);
+        if (previousPeriod > 0) {
+          jitterSum += Math.abs(period - previousPeriod);
+          shimmerSum += Math.abs(amplitude - previousAmplitude);
+          pairs++;
+        }
+        previousPeriod = period;
+      }
+
+      previousAmplitude = amplitude;
+      previousPeak = peak;
+      position = peakIndex + 1;
+    }
+
+    frame = segmentEnd;
+  }
+
+  if (pairs === 0) return { jitter: 0, shimmer: 0 };
+
+  const meanPeriod = periods.reduce((a, b) => a + b, 0) / periods.length;
+  const meanAmplitude = amplitudes.reduce((a, b) => a + b, 0) / amplitudes.length;
+
+  return {
+    jitter: meanPeriod > 0 ? jitterSum / pairs / meanPeriod : 0,
+    shimmer: meanAmplitude > 0 ? shimmerSum / pairs / meanAmplitude : 0,
+  };
+}
+
+// Vertex of the parabola through a peak sample and its neighbours: the
+// sub-sample offset of the true peak (-0.5..0.5) and its height
+function interpolatePeak(samples: Float32Array, index: number, polarity: number): { offset: number; value: number } {
+  const peak = polarity * samples[index];
+  if (index === 0 || index === samples.length - 1) return { offset: 0, value: peak };
+  const before = polarity * samples[index - 1];
+  const after = polarity * samples[index + 1];
+  const curvature = before - 2 * peak + after;
+  if (curvature >= 0) return { offset: 0, value: peak };
+  const offset = (0.5 * (before - after)) / curvature;
+  return { offset, value: peak - 0.25 * (before - after) * offset };
+}
+
+// Syllable-nuclei speech rate: voiced intensity peaks that stand out from
+// their neighbourhood are counted as syllables.
+function estimateSpeechRate(samples: Float32Array, sampleRate: number, pitchTrack: number[]): number {
+  const frameSize = Math.round(PITCH_FRAME_SECONDS * sampleRate);
+  const hopSize = Math.round(HOP_SECONDS * sampleRate);
+  const intensity: number[] = [];
+
+  for (let start = 0; start + frameSize <= samples.length; start += hopSize) {
+    intensity.push(20 * Math.log10(rms(samples, start, frameSize) + 1e-10));
+  }
+  if (intensity.length === 0) return 0;
+
+  const sorted = [...intensity].sort((a, b) => a - b);
+  const median = sorted[Math.floor(sorted.length / 2)];
+  const threshold = Math.max(median, sorted[sorted.length - 1] - 25);
+  const minimumDip = 2;
+
+  let syllables = 0;
+  let lastPeak = -Infinity;
+  let valley = Infinity;
+
+  for (let i = 1; i < intensity.length - 1; i++) {
+    valley = Math.min(valley, intensity[i]);
+    const isPeak = intensity[i] >= intensity[i - 1] && intensity[i] > intensity[i + 1];
+    if (!isPeak || intensity[i] < threshold || !(pitchTrack[i] > 0)) continue;
+
+    if (lastPeak === -Infinity || intensity[i] - valley >= minimumDip) {
+      syllables++;
+      lastPeak = intensity[i];
+      valley = intensity[i];
+    } else if (intensity[i] > lastPeak) {
+      lastPeak = intensity[i];
+    }
+  }
+
+  const minutes = samples.length / sampleRate / 60;
+  return minutes > 0 ? syllables / SYLLABLES_PER_WORD / minutes : 0;
+}
+
+function computeMfccMean(samples: Float32Array, sampleRate: number): number {
+  const frameSize = Math.round(MFCC_FRAME_SECONDS * sampleRate);
+  const hopSize = Math.round(HOP_SECONDS * sampleRate);
+  let fftSize = 1;
+  while (fftSize < frameSize) fftSize *= 2;
+
+  const filterbank = melFilterbank(MEL_FILTERS, fftSize, sampleRate);
+  const hamming = new Float32Array(frameSize);
+  for (let i = 0; i < frameSize; i++) {
+    hamming[i] = 0.54 - 0.46 * Math.cos((2 * Math.PI * i) / (frameSize - 1));
+  }
+
+  const real = new Float64Array(fftSize);
+  const imag = new Float64Array(fftSize);
+  const logEnergies = new Float64Array(MEL_FILTERS);
+  let total = 0;
+  let count = 0;
+
+  for (let start = 0; start + frameSize <= samples.length; start += hopSize) {
+    real.fill(0);
+    imag.fill(0);
+    for (let i = 0; i < frameSize; i++) {
+      const previous = start + i > 0 ? samples[start + i - 1] : 0;
+      real[i] = (samples[start + i] - PRE_EMPHASIS * previous) * hamming[i];
+    }
+    fft(real, imag);
+
+    for (let m = 0; m < MEL_FILTERS; m++) {
+      let energy = 0;
+      const weights = filterbank[m];
+      for (let k = 0; k < weights.length; k++) {
+        if (weights[k] === 0) continue;
+        energy += weights[k] * ((real[k] * real[k] + imag[k] * imag[k]) / fftSize);
+      }
+      logEnergies[m] = Math.log(energy + 1e-10);
+    }
+
+    // DCT-II (orthonormal); coefficient 0 is overall log energy and is skipped
+    for (let c = 1; c < MFCC_COEFFICIENTS; c++) {
+      let sum = 0;
+      for (let m = 0; m < MEL_FILTERS; m++) {
+        sum += logEnergies[m] * Math.cos((Math.PI * c * (m + 0.5)) / MEL_FILTERS);
+      }
+      total += sum * Math.sqrt(2 / MEL_FILTERS);
+      count++;
+    }
+  }
+
+  return count > 0 ? total / count : 0;
+}
+
+function melFilterbank(filters: number, fftSize: number, sampleRate: number): Float64Array[] {
+  const toMel = (hz: number) => 2595 * Math.log10(1 + hz / 700);
+  const toHz = (mel: number) => 700 * (Math.pow(10, mel / 2595) - 1);
+  const bins = fftSize / 2 + 1;
+  const maxMel = toMel(sampleRate / 2);
+
+  const points: number[] = [];
+  for (let i = 0; i < filters + 2; i++) {
+    points.push(Math.floor(((fftSize + 1) * toHz((maxMel * i) / (filters + 1))) / sampleRate));
+  }
+
+  const bank: Float64Array[] = [];
+  for (let m = 1; m <= filters; m++) {
+    const weights = new Float64Array(bins);
+    for (let k = points[m - 1]; k < points[m]; k++) {
+      weights[k] = (k - points[m - 1]) / (points[m] - points[m - 1]);
+    }
+    for (let k = points[m]; k < points[m + 1]; k++) {
+      weights[k] = (points[m + 1] - k) / (points[m + 1] - points[m]);
+    }
+    bank.push(weights);
+  }
+  return bank;
+}
+
+// In-place iterative radix-2 FFT
+function fft(real: Float64Array, imag: Float64Array): void {
+  const n = real.length;
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [real[i], real[j]] = [real[j], real[i]];
+      [imag[i], imag[j]] = [imag[j], imag[i]];
+    }
+  }
+
+  for (let size = 2; size <= n; size *= 2) {
+    const angle = (-2 * Math.PI) / size;
+    for (let start = 0; start < n; start += size) {
+      for (let k = 0; k < size / 2; k++) {
+        const cos = Math.cos(angle * k);
+        const sin = Math.sin(angle * k);
+        const evenIndex = start + k;
+        const oddIndex = evenIndex + size / 2;
+        const tre = real[oddIndex] * cos - imag[oddIndex] * sin;
+        const tim = real[oddIndex] * sin + imag[oddIndex] * cos;
+        real[oddIndex] = real[evenIndex] - tre;
+        imag[oddIndex] = imag[evenIndex] - tim;
+        real[evenIndex] += tre;
+        imag[evenIndex] += tim;
+      }
+    }
+  }
+}
+
+function rms(samples: Float32Array, start: number, length: number): number {
+  let sum = 0;
+  for (let i = start; i < start + length; i++) sum += samples[i] * samples[i];
+  return Math.sqrt(sum / length);
+}
+
+// Frames quieter than this are treated as silence: a fraction of the
+// loudest frame, but never below a fixed noise floor.
+function rmsThreshold(samples: Float32Array, frameSize: number, hopSize: number): number {
+  let loudest = 0;
+  for (let start = 0; start + frameSize <= samples.length; start += hopSize) {
+    loudest = Math.max(loudest, rms(samples, start, frameSize));
+  }
+  return Math.max(0.005, loudest * 0.05);
+}
@@ -0,0 +1,198 @@
+import { ANALYSIS_WINDOW_SECONDS, decodeAudioBlob } from './audioFeatures';
+import { analyzeCapture, EmotionData } from './emotionAnalysis';
+import type { UploadedFile } from './fileDrop';
+import { cropCenterSquare, encodeWav, mediaKind, readImageFile, sliceAudio, withoutExtension } from './mediaFiles';
+import { CsvColumn, emotionDataColumns, toCsv } from './sessionExport';
+
+// Scores many image and audio files in one go, for archives that were not
+// recorded through the app
+
+export interface BatchItem {
+  // Unique within the batch
+  id: string;
+  // Path without extension, shared by the paired files, e.g. "p01/take3"
+  name: string;
+  image: UploadedFile | null;
+  audio: UploadedFile | null;
+}
+
+export interface BatchPairing {
+  items: BatchItem[];
+  // Paths of files that are neither a supported image nor audio file
+  ignored: string[];
+  // Names with several images or several audio files, which are left
+  // unpaired rather than guessing which belong together
+  ambiguous: string[];
+}
+
+export interface BatchItemResult {
+  // Null when neither file could be read
+  emotionData: EmotionData | null;
+  // Unreadable files, failed or unavailable models; the item may still have
+  // results for the other modality
+  errors: string[];
+  // The item was analyzed, but not all of it, e.g. long audio was cut short
+  warnings: string[];
+  durationMs: number;
+}
+
+const describeError = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
+const byName = (a: BatchItem, b: BatchItem) => a.name.localeCompare(b.name, undefined, { numeric: true });
+
+// With `pairByStem`, an image and an audio file in the same folder with the
+// same name (ignoring the extension) become one item; otherwise every file is
+// its own item
+export function pairMediaFiles(uploads: UploadedFile[], pairByStem = true): BatchPairing {
+  const items: BatchItem[] = [];
+  const ignored: string[] = [];
+  const ambiguous: string[] = [];
+  // Supported files by name, in upload order
+  const byKey = new Map<string, { image: UploadedFile[]; audio: UploadedFile[] }>();
+
+  const addItem = (name: string, image: UploadedFile | null, audio: UploadedFile | null) =>
+    items.push({ id: `${items.length}:${(image ?? audio).path}`, name, image, audio });
+
+  for (const upload of uploads) {
+    const kind = mediaKind(upload.file);
+    if (!kind) {
+      ignored.push(upload.path);
+      continue;
+    }
+    const name = withoutExtension(upload.path);
+    if (!pairByStem) {
+      addItem(name, kind === 'image' ? upload : null, kind === 'audio' ? upload : null);
+      continue;
+    }
+    const files = byKey.get(name) ?? { image: [], audio: [] };
+    files[kind].push(upload);
+    byKey.set(name, files);
+  }
+
+  for (const [name, { image, audio }] of byKey) {
+    if (image.length <= 1 && audio.length <= 1) {
+      addItem(name, image[0] ?? null, audio[0] ?? null);
+      continue;
+    }
+    if (image.length > 0 && audio.length > 0) ambiguous.push(name);
+    image.forEach((upload) => addItem(name, upload, null));
+    audio.forEach((upload) => addItem(name, null, upload));
+  }
+
+  return { items: items.sort(byName), ignored, ambiguous };
+}
+
+// `duration` is that of the whole file, in seconds
+async function readAudioWindow(file: File): Promise<{ clip: Blob; duration: number }> {
+  const decoded = await decodeAudioBlob(file);
+  const duration = decoded.samples.length / decoded.sampleRate;
+  const clip = duration > ANALYSIS_WINDOW_SECONDS ? encodeWav(sliceAudio(decoded, 0, ANALYSIS_WINDOW_SECONDS)) : file;
+  return { clip, duration };
+}
+
+// Runs the same analysis as a live capture. Long audio is cut to the first
+// analysis window, noted in `warnings`. Never throws; failures end up in `errors`.
+export async function analyzeBatchItem(item: BatchItem, demoMode: boolean): Promise<BatchItemResult> {
+  const started = performance.now();
+  const errors: string[] = [];
+  const warnings: string[] = [];
+
+  const [image, audio] = await Promise.all([
+    item.image &&
+      readImageFile(item.image.file)
+        // Framed like a single upload, so a file scores the same either way
+        .then(cropCenterSquare)
+        .catch((error) => {
+          errors.push(`${item.image.path}: ${describeError(error)}`);
+          return null;
+        }),
+    item.audio &&
+      readAudioWindow(item.audio.file).then(
+        ({ clip, duration }) => {
+          if (duration > ANALYSIS_WINDOW_SECONDS) {
+            warnings.push(
+              `${item.audio.path}: only the first ${ANALYSIS_WINDOW_SECONDS}s of ${duration.toFixed(1)}s were analyzed`
+            );
+          }
+          return clip;
+        },
+        (error) => {
+          errors.push(`${item.audio.path}: could not be decoded (${describeError(error)})`);
+          return null;
+        }
+      ),
+  ]);
+
+  if (!image && !audio) {
+    return { emotionData: null, errors, warnings, durationMs: performance.now() - started };
+  }
+
+  try {
+    const { emotionData, errors: failures } = await analyzeCapture(image, audio, { demoMode });
+    if (failures.facial !== null) errors.push(`Facial emotion detection failed: ${describeError(failures.facial)}`);
+    if (failures.speech !== null) errors.push(`Speech emotion detection failed: ${describeError(failures.speech)}`);
+    if (emotionData.unavailable.facial) errors.push(emotionData.unavailable.facial);
+    if (emotionData.unavailable.speech) errors.push(emotionData.unavailable.speech);
+    return { emotionData, errors, warnings, durationMs: performance.now() - started };
+  } catch (error) {
+    errors.push(describeError(error));
+    return { emotionData: null, errors, warnings, durationMs: performance.now() - started };
+  }
+}
+
+// Runs `run` over `tasks` with at most `concurrency` in flight. Stops
+// starting new tasks once `shouldStop` returns true; `run` must not throw.
+export async function runWithConcurrency<T>(
+  tasks: T[],
+  concurrency: number,
+  run: (task: T, index: number) => Promise<void>,
+  shouldStop: () => boolean = () => false
+): Promise<void> {
+  let next = 0;
+  const worker = async () => {
+    while (next < tasks.length && !shouldStop()) {
+      const index = next++;
+      await run(tasks[index], index);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(concurrency, tasks.length)) }, worker));
+}
+
+export interface BatchRow {
+  item: BatchItem;
+  result: BatchItemResult | null;
+}
+
+const BATCH_CSV_COLUMNS: CsvColumn<BatchRow>[] = [
+  { header: 'name', value: ({ item }) => item.name },
+  { header: 'image_file', value: ({ item }) => item.image?.path },
+  { header: 'audio_file', value: ({ item }) => item.audio?.path },
+  ...emotionDataColumns<BatchRow>(({ result }) => result?.emotionData ?? null),
+  { header: 'errors', value: ({ result }) => result?.errors.join('; ') },
+  { header: 'warnings', value: ({ result }) => result?.warnings.join('; ') },
+  { header: 'duration_ms', value: ({ result }) => (result ? Math.round(result.durationMs) : null) },
+];
+
+export function batchToCsv(rows: BatchRow[]): string {
+  return toCsv(BATCH_CSV_COLUMNS, rows);
+}
+
+// File paths instead of the files themselves, so the export stays small
+export function batchToJson(rows: BatchRow[], demoMode: boolean) {
+  return {
+    exportedAt: new Date().toISOString(),
+    demoMode,
+    items: rows.map(({ item, result }) => ({
+      name: item.name,
+      imageFile: item.image?.path ?? null,
+      audioFile: item.audio?.path ?? null,
+      emotionData: result?.emotionData ?? null,
+      errors: result?.errors ?? [],
+      warnings: result?.warnings ?? [],
+      durationMs: result ? Math.round(result.durationMs) : null,
+    })),
+  };
+}
+
+export const batchExportFilename = (format: 'json' | 'csv', date = new Date()) =>
+  `emotion-batch-${date.toISOString().replace(/[:.]/g, '-')}.${format}`;
@@ -0,0 +1,78 @@
+// Synthetic data for demo mode. Everything the app shows that does not come
+// from a model or a real measurement is generated here, from a seeded PRNG so
+// the same input and seed always produce the same output.
+import { AudioFeatures } from './audioFeatures';
+import { CANONICAL_EMOTIONS, Emotion } from './emotionLabels';
+
+export const DEFAULT_DEMO_SEED = 42;
+
+export interface DemoEmotion {
+  emotion: Emotion;
+  confidence: number;
+  distribution: Record<Emotion, number>;
+}
+
+export type RandomSource = () => number;
+
+// mulberry32: small, fast and good enough for placeholder data
+export function createSeededRandom(seed: number): RandomSource {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// FNV-1a over a string, used to derive a per-input seed
+export function hashString(value: string, seed = DEFAULT_DEMO_SEED): number {
+  let hash = (0x811c9dc5 ^ seed) >>> 0;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return hash;
+}
+
+// Data URLs can be megabytes long, so only sample them for the seed
+export function seedFromDataUrl(dataUrl: string, seed = DEFAULT_DEMO_SEED): number {
+  const step = Math.max(1, Math.floor(dataUrl.length / 4096));
+  let sample = `${dataUrl.length}:`;
+  for (let i = 0; i < dataUrl.length; i += step) sample += dataUrl[i];
+  return hashString(sample, seed);
+}
+
+// A random winner with 50-100% confidence; the rest is spread over the runners-up
+export function demoEmotion(seed: number): DemoEmotion {
+  const random = createSeededRandom(seed);
+  const emotion = CANONICAL_EMOTIONS[Math.floor(random() * CANONICAL_EMOTIONS.length)];
+  const confidence = 0.5 + random() * 0.5;
+
+  const others = CANONICAL_EMOTIONS.filter((other) => other !== emotion);
+  const shares = others.map(() => random());
+  const total = shares.reduce((a, b) => a + b, 0);
+  const distribution = Object.fromEntries(CANONICAL_EMOTIONS.map((other) => [other, 0])) as Record<Emotion, number>;
+  distribution[emotion] = confidence;
+  others.forEach((other, i) => {
+    distribution[other] = ((1 - confidence) * shares[i]) / total;
+  });
+
+  return { emotion, confidence, distribution };
+}
+
+// Plausible values for a 10 second recording of conversational speech
+export function demoAudioFeatures(seed: number): AudioFeatures {
+  const random = createSeededRandom(seed);
+  const between = (min: number, max: number) => min + random() * (max - min);
+  return {
+    duration: 10,
+    pitch: between(100, 250),
+    speechRate: between(100, 170),
+    jitter: between(0.002, 0.02),
+    shimmer: between(0.02, 0.1),
+    mfccMean: between(-5, 5),
+    sentimentScore: between(-1, 1),
+  };
+}
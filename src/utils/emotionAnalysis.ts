@@ -0,0 +1,219 @@
+import type { AudioFeatures } from './audioFeatures';
+import { demoAudioFeatures, hashString } from './demoData';
+import type { Emotion, UnmappedLabel } from './emotionLabels';
+import { AnalysisFusion, fuseAnalysis } from './emotionFusion';
+import { FaceCrop, localizeFace } from './faceLocalization';
+import {
+  extractAudioFeatures,
+  FacialKeypoint,
+  ModelUnavailableError,
+  predictFacialEmotion,
+  predictFacialKeypoints,
+  predictSpeechEmotion,
+  PredictionSource,
+} from './modelLoader';
+import type { SpeechEnsembleResult } from './speechEnsemble';
+
+// One full analysis of a captured image and audio recording: face
+// localisation, both emotion models and their fusion. Either input can be
+// left out (batch analysis of unpaired files); its modality stays empty.
+
+export interface EmotionData {
+  facial: string | null;
+  speech: string | null;
+  confidence: {
+    facial: number | null;
+    speech: number | null;
+  };
+  // Fallback results are placeholders, not model output
+  source: {
+    facial: PredictionSource | null;
+    speech: PredictionSource | null;
+  };
+  fallbackReason: {
+    facial: string | null;
+    speech: string | null;
+  };
+  // Set when a modality has no model and demo mode is off
+  unavailable: {
+    facial: string | null;
+    speech: string | null;
+  };
+  // Full probability over the canonical emotions for each modality
+  distribution: {
+    facial: Record<Emotion, number> | null;
+    speech: Record<Emotion, number> | null;
+  };
+  // Both modalities combined with the default fusion strategy
+  fusion: AnalysisFusion | null;
+  // Measured acoustic features (and their standardised form when the speech
+  // models ran), or synthetic ones in demo mode when decoding failed
+  audioFeatures: {
+    raw: AudioFeatures;
+    scaled: number[] | null;
+    synthetic: boolean;
+  } | null;
+  speechEnsemble: SpeechEnsembleResult | null;
+  // Region of the captured image the facial model actually analysed
+  faceCrop: FaceCrop | null;
+  // Model classes that have no equivalent in the app's emotion set
+  unmapped: {
+    facial: UnmappedLabel[];
+    speech: UnmappedLabel[];
+  };
+}
+
+export const createEmptyEmotionData = (): EmotionData => ({
+  facial: null,
+  speech: null,
+  confidence: {
+    facial: null,
+    speech: null,
+  },
+  source: {
+    facial: null,
+    speech: null,
+  },
+  fallbackReason: {
+    facial: null,
+    speech: null,
+  },
+  unavailable: {
+    facial: null,
+    speech: null,
+  },
+  distribution: {
+    facial: null,
+    speech: null,
+  },
+  audioFeatures: null,
+  fusion: null,
+  speechEnsemble: null,
+  faceCrop: null,
+  unmapped: {
+    facial: [],
+    speech: [],
+  },
+});
+
+export interface AnalysisOptions {
+  // Landmarks already detected on the image; detected here when omitted
+  keypoints?: FacialKeypoint[] | null;
+  demoMode: boolean;
+}
+
+export interface AnalysisOutcome {
+  emotionData: EmotionData;
+  keypoints: FacialKeypoint[] | null;
+  // Unexpected failures per modality. A missing model is not an error; it is
+  // reported in emotionData.unavailable instead.
+  errors: {
+    facial: unknown;
+    speech: unknown;
+  };
+}
+
+export async function analyzeCapture(
+  image: string | null,
+  audio: Blob | null,
+  { keypoints, demoMode }: AnalysisOptions
+): Promise<AnalysisOutcome> {
+  const emotionData = createEmptyEmotionData();
+  const errors: AnalysisOutcome['errors'] = { facial: null, speech: null };
+
+  keypoints = image ? await analyzeFace(image, keypoints, demoMode, emotionData, errors) : null;
+  if (audio) {
+    await analyzeSpeech(audio, demoMode, emotionData, errors);
+  }
+
+  // Reconcile the two modalities into one overall emotion
+  emotionData.fusion = fuseAnalysis(emotionData);
+
+  return { emotionData, keypoints, errors };
+}
+
+// Fills in the facial half of `emotionData`; resolves to the landmarks used
+async function analyzeFace(
+  image: string,
+  keypoints: FacialKeypoint[] | null | undefined,
+  demoMode: boolean,
+  emotionData: EmotionData,
+  errors: AnalysisOutcome['errors']
+): Promise<FacialKeypoint[] | null> {
+  if (keypoints === undefined) {
+    keypoints = await predictFacialKeypoints(image).catch((error) => {
+      console.error('Error detecting facial keypoints:', error);
+      return null;
+    });
+  }
+
+  try {
+    // Locate and align the face first so the model sees a framed face
+    const faceCrop = await localizeFace(image, keypoints);
+    emotionData.faceCrop = faceCrop;
+    const facialEmotionResult = await predictFacialEmotion(faceCrop.image, { demoMode });
+    console.log('Facial emotion detected:', facialEmotionResult);
+    emotionData.facial = facialEmotionResult.emotion;
+    emotionData.confidence.facial = facialEmotionResult.confidence;
+    emotionData.source.facial = facialEmotionResult.source;
+    emotionData.fallbackReason.facial = facialEmotionResult.fallbackReason ?? null;
+    emotionData.distribution.facial = facialEmotionResult.distribution;
+    emotionData.unmapped.facial = facialEmotionResult.unmapped ?? [];
+  } catch (error) {
+    if (error instanceof ModelUnavailableError) {
+      emotionData.unavailable.facial = error.message;
+    } else {
+      console.error('Error detecting facial emotion:', error);
+      errors.facial = error;
+    }
+  }
+  return keypoints;
+}
+
+async function analyzeSpeech(
+  audio: Blob,
+  demoMode: boolean,
+  emotionData: EmotionData,
+  errors: AnalysisOutcome['errors']
+): Promise<void> {
+  // Acoustic features are measured directly and do not need a model
+  let audioFeatures: AudioFeatures | null = null;
+  try {
+    audioFeatures = await extractAudioFeatures(audio);
+    emotionData.audioFeatures = { raw: audioFeatures, scaled: null, synthetic: false };
+  } catch (error) {
+    console.error('Error extracting audio features:', error);
+    if (demoMode) {
+      emotionData.audioFeatures = { raw: demoAudioFeatures(hashString(`${audio.size}`)), scaled: null, synthetic: true };
+    }
+  }
+
+  try {
+    const speechEmotionResult = await predictSpeechEmotion(audioFeatures ?? audio, undefined, { demoMode });
+    console.log('Speech emotion detected:', speechEmotionResult);
+    emotionData.speech = speechEmotionResult.emotion;
+    emotionData.confidence.speech = speechEmotionResult.confidence;
+    emotionData.source.speech = speechEmotionResult.source;
+    emotionData.fallbackReason.speech = speechEmotionResult.fallbackReason ?? null;
+    emotionData.speechEnsemble = speechEmotionResult.ensemble ?? null;
+    if (speechEmotionResult.features) {
+      // Keep the exact vector the models saw, including its standardised form
+      emotionData.audioFeatures = { ...speechEmotionResult.features, synthetic: false };
+    }
+    emotionData.distribution.speech = speechEmotionResult.distribution;
+    emotionData.unmapped.speech = speechEmotionResult.unmapped ?? [];
+  } catch (error) {
+    if (error instanceof ModelUnavailableError) {
+      emotionData.unavailable.speech = error.message;
+    } else {
+      console.error('Error detecting speech emotion:', error);
+      errors.speech = error;
+    }
+  }
+}
+
+// The emotion a result is best summarised by: the fused one when both
+// modalities contributed, otherwise whichever is present
+export function overallEmotion(emotionData: EmotionData): string | null {
+  return emotionData.fusion?.emotion ?? emotionData.facial ?? emotionData.speech;
+}
@@ -0,0 +1,201 @@
+// Fusion of the facial and speech emotion distributions into one assessment.
+import { CANONICAL_EMOTIONS, Emotion } from './emotionLabels';
+import type { PredictionSource } from './modelLoader';
+
+export type FusionStrategy = 'weightedAverage' | 'productOfExperts' | 'confidenceGated';
+
+export const FUSION_STRATEGIES: { id: FusionStrategy; label: string; description: string }[] = [
+  {
+    id: 'weightedAverage',
+    label: 'Weighted average',
+    description: 'Averages the two distributions using the modality weights',
+  },
+  {
+    id: 'productOfExperts',
+    label: 'Product of experts',
+    description: 'Multiplies the distributions, so an emotion needs support from both',
+  },
+  {
+    id: 'confidenceGated',
+    label: 'Confidence gated',
+    description: 'Trusts the more confident modality, or averages when neither is confident',
+  },
+];
+
+export type Modality = 'facial' | 'speech';
+
+export interface FusionWeights {
+  facial: number;
+  speech: number;
+}
+
+export const DEFAULT_FUSION_WEIGHTS: FusionWeights = { facial: 0.5, speech: 0.5 };
+export const DEFAULT_GATE_THRESHOLD = 0.6;
+
+export interface FusionOptions {
+  strategy?: FusionStrategy;
+  weights?: FusionWeights;
+  // Confidence a modality needs to decide alone under confidenceGated
+  gateThreshold?: number;
+}
+
+export interface FusionResult {
+  strategy: FusionStrategy;
+  emotion: Emotion;
+  confidence: number;
+  distribution: Record<Emotion, number>;
+  // Weights actually applied, renormalised over the modalities present
+  weights: FusionWeights;
+  // Which modalities the fused distribution is built from
+  decidedBy: Modality[];
+  // 1 - Jensen-Shannon divergence of the two distributions (0..1), null with one modality
+  agreement: number | null;
+  // Whether both modalities have the same top emotion, null with one modality
+  sameTopEmotion: boolean | null;
+  topEmotions: Partial<Record<Modality, Emotion>>;
+}
+
+// Fused result of both modalities. Synthetic when only demo placeholders were
+// available to fuse.
+export type AnalysisFusion = FusionResult & { synthetic: boolean };
+
+export interface FusionInputs {
+  distribution: Record<Modality, Record<Emotion, number> | null>;
+  // Fallback distributions are demo placeholders, not model output
+  source: Record<Modality, PredictionSource | null>;
+}
+
+// Keeps product of experts from being vetoed outright by a single zero
+const PROBABILITY_FLOOR = 1e-4;
+
+export function fuseEmotions(
+  facial: Record<Emotion, number> | null,
+  speech: Record<Emotion, number> | null,
+  options: FusionOptions = {}
+): FusionResult {
+  const {
+    strategy = 'weightedAverage',
+    weights = DEFAULT_FUSION_WEIGHTS,
+    gateThreshold = DEFAULT_GATE_THRESHOLD,
+  } = options;
+
+  if (!facial && !speech) {
+    throw new Error('At least one modality distribution is required');
+  }
+
+  // Unmapped model classes leave some mass outside the canonical set, so
+  // compare the modalities over the canonical emotions only
+  const inputs: Partial<Record<Modality, number[]>> = {};
+  if (facial) inputs.facial = normalize(toVector(facial));
+  if (speech) inputs.speech = normalize(toVector(speech));
+
+  const topEmotions: Partial<Record<Modality, Emotion>> = {};
+  (Object.keys(inputs) as Modality[]).forEach((modality) => {
+    topEmotions[modality] = CANONICAL_EMOTIONS[argmax(inputs[modality])];
+  });
+
+  const applied = applyWeights(weights, inputs);
+  let decidedBy = Object.keys(inputs) as Modality[];
+  let fused: number[];
+
+  if (!inputs.facial || !inputs.speech) {
+    fused = inputs.facial ?? inputs.speech;
+  } else if (strategy === 'productOfExperts') {
+    fused = normalize(
+      inputs.facial.map((p, i) =>
+        Math.pow(Math.max(p, PROBABILITY_FLOOR), applied.facial) *
+        Math.pow(Math.max(inputs.speech[i], PROBABILITY_FLOOR), applied.speech)
+      )
+    );
+  } else if (strategy === 'confidenceGated') {
+    const facialConfidence = Math.max(...inputs.facial);
+    const speechConfidence = Math.max(...inputs.speech);
+    const leader: Modality = facialConfidence >= speechConfidence ? 'facial' : 'speech';
+
+    if (Math.max(facialConfidence, speechConfidence) >= gateThreshold) {
+      fused = inputs[leader];
+      decidedBy = [leader];
+    } else {
+      fused = weightedAverage(inputs.facial, inputs.speech, applied);
+    }
+  } else {
+    fused = weightedAverage(inputs.facial, inputs.speech, applied);
+  }
+
+  const winner = argmax(fused);
+  const both = inputs.facial && inputs.speech;
+
+  return {
+    strategy,
+    emotion: CANONICAL_EMOTIONS[winner],
+    confidence: fused[winner],
+    distribution: toRecord(fused),
+    weights: applied,
+    decidedBy,
+    agreement: both ? 1 - jensenShannon(inputs.facial, inputs.speech) : null,
+    sameTopEmotion: both ? topEmotions.facial === topEmotions.speech : null,
+    topEmotions,
+  };
+}
+
+// Demo placeholders are left out of the fusion when a model produced the other
+// modality, so agreement is only ever reported between actual measurements
+export function fuseAnalysis(
+  { distribution, source }: FusionInputs,
+  options: FusionOptions = {}
+): AnalysisFusion | null {
+  const facial = source.facial === 'fallback' ? null : distribution.facial;
+  const speech = source.speech === 'fallback' ? null : distribution.speech;
+  if (facial || speech) {
+    return { ...fuseEmotions(facial, speech, options), synthetic: false };
+  }
+  if (distribution.facial || distribution.speech) {
+    return { ...fuseEmotions(distribution.facial, distribution.speech, options), synthetic: true };
+  }
+  return null;
+}
+
+function applyWeights(weights: FusionWeights, inputs: Partial<Record<Modality, number[]>>): FusionWeights {
+  const facial = inputs.facial ? Math.max(0, weights.facial) : 0;
+  const speech = inputs.speech ? Math.max(0, weights.speech) : 0;
+  const total = facial + speech;
+  // If the configured weights are all zero, fall back to an equal split
+  if (total === 0) {
+    return {
+      facial: inputs.facial ? (inputs.speech ? 0.5 : 1) : 0,
+      speech: inputs.speech ? (inputs.facial ? 0.5 : 1) : 0,
+    };
+  }
+  return { facial: facial / total, speech: speech / total };
+}
+
+function weightedAverage(facial: number[], speech: number[], weights: FusionWeights): number[] {
+  return facial.map((p, i) => weights.facial * p + weights.speech * speech[i]);
+}
+
+// Base-2 Jensen-Shannon divergence, bounded to 0..1
+function jensenShannon(p: number[], q: number[]): number {
+  const m = p.map((value, i) => (value + q[i]) / 2);
+  const kl = (a: number[]) =>
+    a.reduce((sum, value, i) => (value > 0 ? sum + value * Math.log2(value / m[i]) : sum), 0);
+  return Math.min(1, Math.max(0, (kl(p) + kl(q)) / 2));
+}
+
+function toVector(distribution: Record<Emotion, number>): number[] {
+  return CANONICAL_EMOTIONS.map((emotion) => distribution[emotion] ?? 0);
+}
+
+function toRecord(values: number[]): Record<Emotion, number> {
+  return Object.fromEntries(CANONICAL_EMOTIONS.map((emotion, i) => [emotion, values[i]])) as Record<Emotion, number>;
+}
+
+function normalize(values: number[]): number[] {
+  const total = values.reduce((a, b) => a + b, 0);
+  // A distribution with no canonical mass carries no information
+  if (total <= 0) return values.map(() => 1 / values.length);
+  return values.map((value) => value / total);
+}
+
+function argmax(values: number[]): number {
+  return values.reduce((best, value, i) => (value > values[best] ? i : best), 0);
+}
@@ -0,0 +1,140 @@
+// Label schemas for each model and their mapping into the app's emotion taxonomy.
+
+export const CANONICAL_EMOTIONS = ["happy", "sad", "angry", "surprised", "neutral", "fearful"] as const;
+
+export type Emotion = typeof CANONICAL_EMOTIONS[number];
+
+// Display colours, matching the `emotion` palette in tailwind.config.ts
+export const EMOTION_COLORS: Record<Emotion, string> = {
+  happy: "#4ade80",
+  sad: "#60a5fa",
+  angry: "#f87171",
+  surprised: "#facc15",
+  neutral: "#a3a3a3",
+  fearful: "#c084fc",
+};
+
+// Chart config for recharts-based charts, one series per emotion
+export const EMOTION_CHART_CONFIG = Object.fromEntries(
+  CANONICAL_EMOTIONS.map((emotion) => [
+    emotion,
+    { label: emotion.charAt(0).toUpperCase() + emotion.slice(1), color: EMOTION_COLORS[emotion] },
+  ])
+) as Record<Emotion, { label: string; color: string }>;
+
+export interface LabelSchema {
+  modelId: string;
+  // Output classes in model output order
+  classes: string[];
+  // Model class -> canonical emotion; null marks a class with no equivalent
+  mapping: Record<string, Emotion | null>;
+}
+
+export interface UnmappedLabel {
+  label: string;
+  probability: number;
+}
+
+export interface MappedPrediction {
+  // Canonical emotion, or the model's own label when the winning class is unmapped
+  emotion: string;
+  confidence: number;
+  modelLabel: string;
+  mapped: boolean;
+  distribution: Record<Emotion, number>;
+  unmapped: UnmappedLabel[];
+}
+
+// Classes of the FER model used in training (anger, disgust, sad, happiness, surprise)
+export const FACIAL_EMOTION_CLASSES = ["anger", "disgust", "sad", "happiness", "surprise"];
+
+const FACIAL_EMOTION_MAPPING: Record<string, Emotion | null> = {
+  anger: "angry",
+  disgust: null,
+  sad: "sad",
+  happiness: "happy",
+  surprise: "surprised",
+};
+
+// Speech classes come from mood_encoder.pkl; keys are lower-cased
+const SPEECH_EMOTION_MAPPING: Record<string, Emotion | null> = {
+  angry: "angry",
+  bored: null,
+  calm: "neutral",
+  confused: null,
+  excited: "happy",
+  fearful: "fearful",
+  happy: "happy",
+  neutral: "neutral",
+  sad: "sad",
+  surprised: "surprised",
+};
+
+export function createLabelSchema(
+  modelId: string,
+  classes: string[],
+  mapping: Record<string, Emotion | null>
+): LabelSchema {
+  const normalized = classes.map((label) => label.toLowerCase());
+  const complete: Record<string, Emotion | null> = {};
+
+  for (const label of normalized) {
+    if (!(label in mapping)) {
+      console.warn(`Model ${modelId} class "${label}" has no mapping entry; it will be reported as unmapped`);
+    }
+    complete[label] = mapping[label] ?? null;
+  }
+
+  return { modelId, classes: normalized, mapping: complete };
+}
+
+export function createFacialEmotionSchema(): LabelSchema {
+  return createLabelSchema("facial-emotion", FACIAL_EMOTION_CLASSES, FACIAL_EMOTION_MAPPING);
+}
+
+export function createSpeechEmotionSchema(classes: string[]): LabelSchema {
+  return createLabelSchema("speech-emotion", classes, SPEECH_EMOTION_MAPPING);
+}
+
+export function mapPrediction(schema: LabelSchema, probabilities: number[]): MappedPrediction {
+  if (probabilities.length !== schema.classes.length) {
+    throw new Error(
+      `Model ${schema.modelId} returned ${probabilities.length} outputs but declares ${schema.classes.length} classes`
+    );
+  }
+
+  const distribution = Object.fromEntries(CANONICAL_EMOTIONS.map((emotion) => [emotion, 0])) as Record<Emotion, number>;
+  const unmapped: UnmappedLabel[] = [];
+
+  schema.classes.forEach((label, i) => {
+    const emotion = schema.mapping[label];
+    if (emotion) {
+      distribution[emotion] += probabilities[i];
+    } else {
+      unmapped.push({ label, probability: probabilities[i] });
+    }
+  });
+
+  // Several model classes can feed one canonical emotion, so pick the winner
+  // over the merged buckets; unmapped classes compete as themselves.
+  const buckets: { emotion: string; probability: number; mapped: boolean }[] = [
+    ...CANONICAL_EMOTIONS.map((emotion) => ({ emotion, probability: distribution[emotion], mapped: true })),
+    ...unmapped.map(({ label, probability }) => ({ emotion: label, probability, mapped: false })),
+  ];
+  const winner = buckets.reduce((best, bucket) => (bucket.probability > best.probability ? bucket : best));
+  const modelLabel = winner.mapped
+    ? schema.classes
+        .map((label, i) => ({ label, probability: probabilities[i] }))
+        .filter(({ label }) => schema.mapping[label] === winner.emotion)
+        .reduce((best, entry) => (entry.probability > best.probability ? entry : best), { label: winner.emotion, probability: -1 }).label
+    : winner.emotion;
+
+  return {
+    emotion: winner.emotion,
+    confidence: winner.probability,
+    modelLabel,
+    mapped: winner.mapped,
+    distribution,
+    unmapped,
+  };
+}
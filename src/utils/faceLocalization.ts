@@ -0,0 +1,156 @@
+import { FacialKeypoint, predictFacialKeypoints } from './modelLoader';
+import { loadImageElement } from './imagePreprocessing';
+
+// A square, rotation-corrected face region in source image pixels
+export interface FaceCrop {
+  method: 'keypoints' | 'center';
+  centerX: number;
+  centerY: number;
+  size: number;
+  // Head roll in radians; the crop is rotated by -angle to level the eyes
+  angle: number;
+  sourceWidth: number;
+  sourceHeight: number;
+  // The aligned crop as a PNG data URL
+  image: string;
+}
+
+export interface FaceCropOptions {
+  // Extra margin around the estimated face square, as a fraction of its size
+  padding?: number;
+  outputSize?: number;
+}
+
+// In the 96x96 faces the keypoint model was trained on, the eyes sit about
+// 0.375 of the crop apart and their midpoint is 0.1 of the crop above centre.
+const EYE_DISTANCE_RATIO = 0.375;
+const EYE_OFFSET_RATIO = 0.1;
+const MIN_EYE_DISTANCE = 0.02;
+
+// `keypoints` of null means detection found no face, so the centre square is
+// used; leave them out to have them detected here
+export async function localizeFace(
+  imageData: string,
+  keypoints?: FacialKeypoint[] | null,
+  options: FaceCropOptions = {}
+): Promise<FaceCrop> {
+  const { padding = 0.1, outputSize = 192 } = options;
+  const img = await loadImageElement(imageData);
+  const width = img.naturalWidth;
+  const height = img.naturalHeight;
+
+  const points = keypoints === undefined ? await predictFacialKeypoints(imageData) : keypoints;
+  let region = points ? regionFromKeypoints(points, width, height, padding) : null;
+
+  if (region) {
+    // The keypoint model expects a tightly framed face, so refine once on the
+    // first crop and map the landmarks back into the source image.
+    const firstPass = renderCrop(img, region, outputSize);
+    const refined = await predictFacialKeypoints(firstPass);
+    const refinedRegion = refined
+      ? regionFromKeypoints(refined.map((point) => cropToSource(point, region, width, height)), width, height, padding)
+      : null;
+    if (refinedRegion) region = refinedRegion;
+  }
+
+  if (!region) {
+    // No usable landmarks: analyse the largest centred square
+    const size = Math.min(width, height);
+    return {
+      method: 'center',
+      centerX: width / 2,
+      centerY: height / 2,
+      size,
+      angle: 0,
+      sourceWidth: width,
+      sourceHeight: height,
+      image: renderCrop(img, { centerX: width / 2, centerY: height / 2, size, angle: 0 }, outputSize),
+    };
+  }
+
+  return {
+    method: 'keypoints',
+    ...region,
+    sourceWidth: width,
+    sourceHeight: height,
+    image: renderCrop(img, region, outputSize),
+  };
+}
+
+// Corners of the crop square in normalised source coordinates, clockwise from top-left
+export function faceCropCorners(crop: FaceCrop): { x: number; y: number }[] {
+  return [[0, 0], [1, 0], [1, 1], [0, 1]].map(([u, v]) =>
+    cropToSource({ name: '', x: u, y: v }, crop, crop.sourceWidth, crop.sourceHeight)
+  );
+}
+
+type CropRegion = Pick<FaceCrop, 'centerX' | 'centerY' | 'size' | 'angle'>;
+
+function regionFromKeypoints(
+  keypoints: FacialKeypoint[],
+  width: number,
+  height: number,
+  padding: number
+): CropRegion | null {
+  const find = (name: string) => keypoints.find((point) => point.name === name);
+  const eyeA = find('left_eye_center');
+  const eyeB = find('right_eye_center');
+  if (!eyeA || !eyeB) return null;
+
+  // Order the eyes by image position so the angle does not depend on naming
+  const [leftEye, rightEye] = eyeA.x <= eyeB.x ? [eyeA, eyeB] : [eyeB, eyeA];
+  const dx = (rightEye.x - leftEye.x) * width;
+  const dy = (rightEye.y - leftEye.y) * height;
+  const eyeDistance = Math.hypot(dx, dy);
+
+  const inside = (value: number) => value >= 0 && value <= 1;
+  if (!inside(leftEye.x) || !inside(leftEye.y) || !inside(rightEye.x) || !inside(rightEye.y)) return null;
+  if (eyeDistance < MIN_EYE_DISTANCE * Math.min(width, height)) return null;
+
+  const angle = Math.atan2(dy, dx);
+  const size = (eyeDistance / EYE_DISTANCE_RATIO) * (1 + padding);
+  const eyeMidX = ((leftEye.x + rightEye.x) / 2) * width;
+  const eyeMidY = ((leftEye.y + rightEye.y) / 2) * height;
+
+  // The face centre lies below the eye line, perpendicular to it
+  return {
+    centerX: eyeMidX - Math.sin(angle) * EYE_OFFSET_RATIO * size,
+    centerY: eyeMidY + Math.cos(angle) * EYE_OFFSET_RATIO * size,
+    size,
+    angle,
+  };
+}
+
+// Maps a point given relative to a crop (0..1) back to normalised source coordinates
+function cropToSource(point: FacialKeypoint, region: CropRegion, width: number, height: number): FacialKeypoint {
+  const localX = (point.x - 0.5) * region.size;
+  const localY = (point.y - 0.5) * region.size;
+  const cos = Math.cos(region.angle);
+  const sin = Math.sin(region.angle);
+
+  return {
+    name: point.name,
+    x: (region.centerX + localX * cos - localY * sin) / width,
+    y: (region.centerY + localX * sin + localY * cos) / height,
+  };
+}
+
+function renderCrop(img: HTMLImageElement, region: CropRegion, outputSize: number): string {
+  const canvas = document.createElement('canvas');
+  canvas.width = outputSize;
+  canvas.height = outputSize;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas 2D context is not available');
+
+  // Areas outside the frame stay black, like the padding in training crops
+  ctx.fillStyle = '#000';
+  ctx.fillRect(0, 0, outputSize, outputSize);
+
+  const scale = outputSize / region.size;
+  ctx.translate(outputSize / 2, outputSize / 2);
+  ctx.rotate(-region.angle);
+  ctx.scale(scale, scale);
+  ctx.drawImage(img, -region.centerX, -region.centerY);
+
+  return canvas.toDataURL('image/png');
+}
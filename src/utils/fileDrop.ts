@@ -0,0 +1,54 @@
+// Collects files from drag and drop or a file input, keeping each file's
+// path inside any dropped or picked folder.
+
+export interface UploadedFile {
+  // Relative path, e.g. "speech_emotion/xgb_model.json"; just the name for loose files
+  path: string;
+  file: File;
+}
+
+function readEntry(entry: FileSystemEntry): Promise<UploadedFile[]> {
+  if (entry.isFile) {
+    return new Promise((resolve, reject) => {
+      (entry as FileSystemFileEntry).file(
+        (file) => resolve([{ path: entry.fullPath.replace(/^\//, ''), file }]),
+        reject
+      );
+    });
+  }
+  if (entry.isDirectory) {
+    return readDirectory(entry as FileSystemDirectoryEntry);
+  }
+  return Promise.resolve([]);
+}
+
+async function readDirectory(directory: FileSystemDirectoryEntry): Promise<UploadedFile[]> {
+  const reader = directory.createReader();
+  const entries: FileSystemEntry[] = [];
+  // readEntries returns at most ~100 entries per call
+  for (;;) {
+    const batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+    if (batch.length === 0) break;
+    entries.push(...batch);
+  }
+  const nested = await Promise.all(entries.map(readEntry));
+  return nested.flat();
+}
+
+// Must be called synchronously from the drop handler: the browser clears the
+// transfer's items once the event has been handled
+export function collectDroppedFiles(dataTransfer: DataTransfer): Promise<UploadedFile[]> {
+  const entries = Array.from(dataTransfer.items)
+    .map((item) => item.webkitGetAsEntry?.())
+    .filter((entry): entry is FileSystemEntry => Boolean(entry));
+
+  if (entries.length === 0) {
+    return Promise.resolve(filesFromList(dataTransfer.files));
+  }
+  return Promise.all(entries.map(readEntry)).then((nested) => nested.flat());
+}
+
+// Files from an <input type="file">; folder pickers fill in webkitRelativePath
+export function filesFromList(files: FileList | null): UploadedFile[] {
+  return Array.from(files ?? []).map((file) => ({ path: file.webkitRelativePath || file.name, file }));
+}
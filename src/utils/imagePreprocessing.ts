@@ -0,0 +1,83 @@
+import * as tf from '@tensorflow/tfjs';
+
+// How an image model expects its input tensor to be prepared. Each model
+// declares one of these in its metadata (see modelMetadata.ts).
+export interface ImagePreprocessingConfig {
+  width: number;
+  height: number;
+  channels: 1 | 3;
+  resize: 'bilinear' | 'area' | 'nearest';
+  normalization: ImageNormalization;
+  // RGB weights used for grayscale conversion; defaults to ITU-R BT.601 luma
+  lumaWeights?: [number, number, number];
+}
+
+export type ImageNormalization =
+  | { mode: 'zeroToOne' }
+  | { mode: 'minusOneToOne' }
+  // Mean/std in 0-255 pixel units, one entry per output channel
+  | { mode: 'meanStd'; mean: number[]; std: number[] };
+
+const BT601_LUMA: [number, number, number] = [0.299, 0.587, 0.114];
+
+export function loadImageElement(imageData: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = (error) => {
+      console.error('Error loading image for preprocessing:', error);
+      reject(error);
+    };
+    img.src = imageData;
+  });
+}
+
+// Returns a [1, height, width, channels] float tensor ready for predict()
+export function preprocessPixels(
+  pixels: tf.PixelData | ImageData | HTMLImageElement | HTMLCanvasElement | HTMLVideoElement | ImageBitmap,
+  config: ImagePreprocessingConfig
+): tf.Tensor4D {
+  return tf.tidy(() => {
+    let image = tf.browser.fromPixels(pixels, 3).toFloat() as tf.Tensor3D;
+
+    if (config.channels === 1) {
+      const [r, g, b] = config.lumaWeights ?? BT601_LUMA;
+      image = tf.sum(tf.mul(image, tf.tensor1d([r, g, b])), -1, true) as tf.Tensor3D;
+    }
+
+    const resized = resizeImage(image, config);
+    return normalize(resized, config.normalization).expandDims(0) as tf.Tensor4D;
+  });
+}
+
+function resizeImage(image: tf.Tensor3D, config: ImagePreprocessingConfig): tf.Tensor3D {
+  const { width, height } = config;
+  const [sourceHeight, sourceWidth] = image.shape;
+
+  if (config.resize === 'nearest') {
+    return tf.image.resizeNearestNeighbor(image, [height, width]);
+  }
+
+  if (config.resize === 'area') {
+    // Area interpolation: bilinear-resize to an integer multiple of the
+    // target, then average each block. Upscaling falls through to bilinear.
+    const factor = Math.floor(Math.min(sourceHeight / height, sourceWidth / width));
+    if (factor > 1) {
+      const intermediate = tf.image.resizeBilinear(image, [height * factor, width * factor], true);
+      return tf.avgPool(intermediate, factor, factor, 'valid') as tf.Tensor3D;
+    }
+  }
+
+  return tf.image.resizeBilinear(image, [height, width], true);
+}
+
+function normalize(image: tf.Tensor3D, normalization: ImageNormalization): tf.Tensor3D {
+  switch (normalization.mode) {
+    case 'zeroToOne':
+      return image.div(255);
+    case 'minusOneToOne':
+      return image.div(127.5).sub(1);
+    case 'meanStd':
+      return image.sub(tf.tensor1d(normalization.mean)).div(tf.tensor1d(normalization.std));
+  }
+}
@@ -0,0 +1,66 @@
+// Minimal promise wrappers around IndexedDB, shared by the model and session stores
+
+export function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// Opens the database once and keeps the connection; a failed open is retried
+// on the next call
+export function createDatabase(
+  name: string,
+  version: number,
+  // Runs inside the version change transaction, which it can use to migrate records
+  upgrade: (db: IDBDatabase, oldVersion: number, transaction: IDBTransaction) => void
+): () => Promise<IDBDatabase> {
+  let database: Promise<IDBDatabase> | null = null;
+
+  return () => {
+    if (typeof indexedDB === 'undefined') {
+      return Promise.reject(new Error('IndexedDB is not available in this browser'));
+    }
+    database ??= new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(name, version);
+      request.onupgradeneeded = (event) => upgrade(request.result, event.oldVersion, request.transaction);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    }).catch((error) => {
+      database = null;
+      throw error;
+    });
+    return database;
+  };
+}
+
+// Runs `body` in one transaction and resolves once it has committed. Only
+// await IndexedDB requests inside `body`, or the transaction closes early.
+export async function transact<T>(
+  open: () => Promise<IDBDatabase>,
+  stores: string[],
+  mode: IDBTransactionMode,
+  body: (transaction: IDBTransaction) => Promise<T> | T
+): Promise<T> {
+  const transaction = (await open()).transaction(stores, mode);
+  const done = new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error ?? new Error('IndexedDB transaction was aborted'));
+  });
+  let result: T;
+  try {
+    result = await body(transaction);
+  } catch (error) {
+    // Roll back whatever `body` wrote before failing
+    done.catch(() => undefined);
+    try {
+      transaction.abort();
+    } catch {
+      // Already committed
+    }
+    throw error;
+  }
+  await done;
+  return result;
+}
@@ -0,0 +1,216 @@
+import * as tf from '@tensorflow/tfjs';
+import { computeAudioFeatures, featuresToVector } from './audioFeatures';
+import { createSeededRandom } from './demoData';
+import { LabelSchema, mapPrediction } from './emotionLabels';
+import { preprocessPixels } from './imagePreprocessing';
+import { applyStandardScaler } from './joblibPickle';
+import { FACIAL_EMOTION_MODEL, FACIAL_KEYPOINT_MODEL, FACIAL_KEYPOINT_NAMES } from './modelMetadata';
+import { ModelId, modelRegistry } from './modelRegistry';
+import { BackendName } from './tfBackend';
+import { predictXGBoostProbabilities } from './xgboost';
+
+// Times every model on synthetic inputs. Runs inside the inference worker on
+// whichever backend is active.
+
+export type BenchmarkStage = 'preprocessing' | 'inference' | 'postprocessing';
+
+// Milliseconds
+export interface TimingStats {
+  mean: number;
+  median: number;
+  min: number;
+  max: number;
+}
+
+export interface ModelBenchmark {
+  modelId: ModelId;
+  name: string;
+  warmUpMs: number | null;
+  // Null when the model could not be loaded or run on this backend
+  stages: Record<BenchmarkStage, TimingStats> | null;
+  error: string | null;
+}
+
+export interface BackendBenchmark {
+  backend: BackendName;
+  iterations: number;
+  // Set when the backend itself could not be initialised
+  error: string | null;
+  models: ModelBenchmark[];
+}
+
+interface BenchmarkCase<I, O> {
+  preprocess: () => Promise<I>;
+  infer: (input: I) => Promise<O>;
+  postprocess: (output: O) => void;
+  dispose?: (input: I) => void;
+}
+
+const IMAGE_SIZE = 256;
+const AUDIO_SECONDS = 3;
+const AUDIO_SAMPLE_RATE = 16000;
+const BENCHMARK_SEED = 7;
+
+// Seeded noise, so every backend sees the same frame
+function syntheticImage(): ImageData {
+  const random = createSeededRandom(BENCHMARK_SEED);
+  const pixels = new Uint8ClampedArray(IMAGE_SIZE * IMAGE_SIZE * 4);
+  for (let i = 0; i < pixels.length; i += 4) {
+    pixels[i] = pixels[i + 1] = pixels[i + 2] = Math.floor(random() * 256);
+    pixels[i + 3] = 255;
+  }
+  return new ImageData(pixels, IMAGE_SIZE, IMAGE_SIZE);
+}
+
+// A voiced tone pulsed at a syllable-like rate with a little noise, so pitch
+// tracking and syllable detection do representative work
+function syntheticSpeech(): Float32Array {
+  const random = createSeededRandom(BENCHMARK_SEED);
+  const samples = new Float32Array(AUDIO_SECONDS * AUDIO_SAMPLE_RATE);
+  for (let i = 0; i < samples.length; i++) {
+    const t = i / AUDIO_SAMPLE_RATE;
+    const envelope = Math.max(0, Math.sin(2 * Math.PI * 4 * t));
+    samples[i] = 0.4 * envelope * Math.sin(2 * Math.PI * 150 * t) + 0.01 * (random() - 0.5);
+  }
+  return samples;
+}
+
+function summarise(times: number[]): TimingStats {
+  const sorted = [...times].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return {
+    mean: sorted.reduce((a, b) => a + b, 0) / sorted.length,
+    median: sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2,
+    min: sorted[0],
+    max: sorted[sorted.length - 1],
+  };
+}
+
+async function timeCase<I, O>(
+  benchmarkCase: BenchmarkCase<I, O>,
+  iterations: number
+): Promise<Record<BenchmarkStage, TimingStats>> {
+  const times: Record<BenchmarkStage, number[]> = { preprocessing: [], inference: [], postprocessing: [] };
+
+  for (let i = 0; i < iterations; i++) {
+    let started = performance.now();
+    const input = await benchmarkCase.preprocess();
+    times.preprocessing.push(performance.now() - started);
+
+    try {
+      started = performance.now();
+      const output = await benchmarkCase.infer(input);
+      times.inference.push(performance.now() - started);
+
+      started = performance.now();
+      benchmarkCase.postprocess(output);
+      times.postprocessing.push(performance.now() - started);
+    } finally {
+      benchmarkCase.dispose?.(input);
+    }
+  }
+
+  return {
+    preprocessing: summarise(times.preprocessing),
+    inference: summarise(times.inference),
+    postprocessing: summarise(times.postprocessing),
+  };
+}
+
+// GPU work is queued asynchronously, so tensor stages read their result back
+// before the clock stops. This includes the download in the measured time.
+async function computed<T extends tf.Tensor>(tensor: T): Promise<T> {
+  await tensor.data();
+  return tensor;
+}
+
+async function predictProbabilities(model: tf.LayersModel, input: tf.Tensor): Promise<number[]> {
+  const prediction = model.predict(input) as tf.Tensor;
+  try {
+    return Array.from(await prediction.data());
+  } finally {
+    prediction.dispose();
+  }
+}
+
+async function createCase(id: ModelId): Promise<BenchmarkCase<unknown, unknown> | null> {
+  const image = syntheticImage();
+  const audio = syntheticSpeech();
+
+  const scaledFeatures = async () => {
+    const preprocessing = await modelRegistry.load('speech-preprocessing');
+    return applyStandardScaler(preprocessing.scaler, featuresToVector(computeAudioFeatures(audio, AUDIO_SAMPLE_RATE)));
+  };
+  const speechSchema = async (): Promise<LabelSchema> => (await modelRegistry.load('speech-preprocessing')).labelSchema;
+
+  switch (id) {
+    case 'facial-emotion': {
+      const model = await modelRegistry.load(id);
+      const schema = modelRegistry.get(id).labelSchema;
+      if (!schema) throw new Error('Facial emotion model has no label schema');
+      return {
+        preprocess: () => computed(preprocessPixels(image, FACIAL_EMOTION_MODEL.preprocessing)),
+        infer: (input: tf.Tensor) => predictProbabilities(model, input),
+        postprocess: (output: number[]) => mapPrediction(schema, output),
+        dispose: (input: tf.Tensor) => input.dispose(),
+      } as BenchmarkCase<unknown, unknown>;
+    }
+    case 'facial-keypoints': {
+      const model = await modelRegistry.load(id);
+      const { width, height } = FACIAL_KEYPOINT_MODEL.preprocessing;
+      return {
+        preprocess: () => computed(preprocessPixels(image, FACIAL_KEYPOINT_MODEL.preprocessing)),
+        infer: (input: tf.Tensor) => predictProbabilities(model, input),
+        postprocess: (output: number[]) =>
+          FACIAL_KEYPOINT_NAMES.map((name, i) => ({ name, x: output[i * 2] / width, y: output[i * 2 + 1] / height })),
+        dispose: (input: tf.Tensor) => input.dispose(),
+      } as BenchmarkCase<unknown, unknown>;
+    }
+    case 'speech-emotion-mlp': {
+      const model = await modelRegistry.load(id);
+      const schema = await speechSchema();
+      return {
+        preprocess: async () => tf.tensor2d([await scaledFeatures()]),
+        infer: (input: tf.Tensor) => predictProbabilities(model, input),
+        postprocess: (output: number[]) => mapPrediction(schema, output),
+        dispose: (input: tf.Tensor) => input.dispose(),
+      } as BenchmarkCase<unknown, unknown>;
+    }
+    case 'speech-emotion-xgb': {
+      const model = await modelRegistry.load(id);
+      const schema = await speechSchema();
+      return {
+        preprocess: scaledFeatures,
+        infer: async (input: number[]) => predictXGBoostProbabilities(model, input),
+        postprocess: (output: number[]) => mapPrediction(schema, output),
+      } as BenchmarkCase<unknown, unknown>;
+    }
+    default:
+      // Preprocessing-only entries are timed as part of the models that use them
+      return null;
+  }
+}
+
+// Benchmarks every registered model on the active backend
+export async function benchmarkModels(iterations: number): Promise<ModelBenchmark[]> {
+  const results: ModelBenchmark[] = [];
+
+  for (const entry of modelRegistry.getSnapshot()) {
+    try {
+      const benchmarkCase = await createCase(entry.id);
+      if (!benchmarkCase) continue;
+      const stages = await timeCase(benchmarkCase, iterations);
+      results.push({ modelId: entry.id, name: entry.name, warmUpMs: modelRegistry.get(entry.id).warmUpMs, stages, error: null });
+    } catch (error) {
+      results.push({
+        modelId: entry.id,
+        name: entry.name,
+        warmUpMs: null,
+        stages: null,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  return results;
+}
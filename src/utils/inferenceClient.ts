@@ -0,0 +1,191 @@
+import type { AudioFeatures } from './audioFeatures';
+import type { ModelEntry, ModelId } from './modelRegistry';
+import type { SpeechEnsembleWeights } from './speechEnsemble';
+import type { BackendBenchmark } from './inferenceBenchmark';
+import type { StoredModels } from './modelStore';
+import type { FileUploadProgress, ModelUploadReport, UploadedFile } from './modelUpload';
+import { BackendName, BackendState, INITIAL_BACKEND_STATE } from './tfBackend';
+import {
+  FacialEmotionResult,
+  FacialKeypoint,
+  InferenceRequest,
+  InferenceRequests,
+  InferenceRequestType,
+  InferenceResponse,
+  SpeechEmotionResult,
+} from './inferenceProtocol';
+
+// An error raised inside the worker, rebuilt here with its original name
+export class InferenceWorkerError extends Error {
+  constructor(name: string, message: string) {
+    super(message);
+    this.name = name;
+  }
+}
+
+interface PendingRequest {
+  resolve: (result: unknown) => void;
+  reject: (error: Error) => void;
+  onProgress?: (progress: FileUploadProgress) => void;
+}
+
+type Listener = () => void;
+
+// Promise-based front end to the inference worker. Also mirrors the worker's
+// model registry and TensorFlow.js backend so the UI can show them.
+export class InferenceClient {
+  private worker: Worker | null = null;
+  private nextId = 1;
+  private pending = new Map<number, PendingRequest>();
+  private listeners = new Set<Listener>();
+  private snapshot: ModelEntry[] = [];
+  private backend: BackendState = INITIAL_BACKEND_STATE;
+
+  // The worker is only started on first use
+  constructor(private createWorker: () => Worker) {}
+
+  // Loads one model, or all of them; resolves to the registry state afterwards
+  load(modelId?: ModelId): Promise<ModelEntry[]> {
+    return this.request('load', { modelId });
+  }
+
+  dispose(modelId?: ModelId): Promise<ModelEntry[]> {
+    return this.request('dispose', { modelId });
+  }
+
+  // Files are cloned to the worker without copying their contents
+  installModels(
+    files: UploadedFile[],
+    onProgress?: (progress: FileUploadProgress) => void
+  ): Promise<ModelUploadReport> {
+    return this.request('installModels', { files }, [], onProgress);
+  }
+
+  restoreBundledModel(modelId: ModelId): Promise<ModelEntry[]> {
+    return this.request('restoreBundledModel', { modelId });
+  }
+
+  listStoredModels(): Promise<StoredModels> {
+    return this.request('listStoredModels', {});
+  }
+
+  // Swaps the stored version in and pins it for later visits
+  activateModelVersion(versionId: string): Promise<StoredModels> {
+    return this.request('activateModelVersion', { versionId });
+  }
+
+  // Deleting the pinned version brings back the bundled model
+  deleteModelVersion(versionId: string): Promise<StoredModels> {
+    return this.request('deleteModelVersion', { versionId });
+  }
+
+  // Null picks the first backend that works
+  setBackend(backend: BackendName | null): Promise<BackendState> {
+    return this.request('setBackend', { backend });
+  }
+
+  // Leaves the worker on the benchmarked backend; switch back with setBackend
+  benchmark(backend: BackendName, iterations: number): Promise<BackendBenchmark> {
+    return this.request('benchmark', { backend, iterations });
+  }
+
+  // The samples are transferred, so the caller's array is empty afterwards
+  extractAudioFeatures(samples: Float32Array, sampleRate: number): Promise<AudioFeatures> {
+    return this.request('extractAudioFeatures', { samples, sampleRate }, [samples.buffer]);
+  }
+
+  // The image is transferred and closed by the worker
+  predictFacialEmotion(image: ImageBitmap): Promise<FacialEmotionResult> {
+    return this.request('predictFacialEmotion', { image }, [image]);
+  }
+
+  predictFacialKeypoints(image: ImageBitmap): Promise<FacialKeypoint[] | null> {
+    return this.request('predictFacialKeypoints', { image }, [image]);
+  }
+
+  predictSpeechEmotion(features: AudioFeatures, weights: SpeechEnsembleWeights): Promise<SpeechEmotionResult> {
+    return this.request('predictSpeechEmotion', { features, weights });
+  }
+
+  // Stops the worker and its models; the next request starts a fresh one
+  terminate(): void {
+    this.worker?.terminate();
+    this.worker = null;
+    this.rejectAll(new Error('Inference worker was terminated'));
+  }
+
+  subscribe = (listener: Listener): (() => void) => {
+    this.ensureWorker();
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  };
+
+  // Last registry state reported by the worker, for useSyncExternalStore
+  getSnapshot = (): ModelEntry[] => this.snapshot;
+
+  getBackendSnapshot = (): BackendState => this.backend;
+
+  private request<K extends InferenceRequestType>(
+    type: K,
+    params: InferenceRequests[K]['params'],
+    transfer: Transferable[] = [],
+    onProgress?: PendingRequest['onProgress']
+  ): Promise<InferenceRequests[K]['result']> {
+    const worker = this.ensureWorker();
+    const id = this.nextId++;
+    return new Promise((resolve, reject) => {
+      this.pending.set(id, { resolve: resolve as (result: unknown) => void, reject, onProgress });
+      worker.postMessage({ id, type, ...params } as InferenceRequest, transfer);
+    });
+  }
+
+  private ensureWorker(): Worker {
+    if (this.worker) return this.worker;
+
+    const worker = this.createWorker();
+    worker.onmessage = (event: MessageEvent<InferenceResponse>) => this.handleResponse(event.data);
+    worker.onerror = (event) => {
+      console.error('Inference worker crashed:', event.message);
+      worker.terminate();
+      if (this.worker === worker) this.worker = null;
+      this.rejectAll(new Error(`Inference worker crashed: ${event.message || 'unknown error'}`));
+    };
+    this.worker = worker;
+    return worker;
+  }
+
+  private handleResponse(response: InferenceResponse): void {
+    if (response.type === 'progress' || response.type === 'backend') {
+      if (response.type === 'progress') {
+        this.snapshot = response.models;
+      } else {
+        this.backend = response.state;
+      }
+      this.listeners.forEach((listener) => listener());
+      return;
+    }
+
+    const pending = this.pending.get(response.id);
+    if (!pending) return;
+    if (response.type === 'fileProgress') {
+      pending.onProgress?.(response.progress);
+      return;
+    }
+    this.pending.delete(response.id);
+
+    if (response.type === 'result') {
+      pending.resolve(response.result);
+    } else {
+      pending.reject(new InferenceWorkerError(response.error.name, response.error.message));
+    }
+  }
+
+  private rejectAll(error: Error): void {
+    this.pending.forEach(({ reject }) => reject(error));
+    this.pending.clear();
+  }
+}
+
+export const inferenceClient = new InferenceClient(
+  () => new Worker(new URL('../workers/inference.worker.ts', import.meta.url), { type: 'module' })
+);
@@ -0,0 +1,185 @@
+import * as tf from '@tensorflow/tfjs';
+import { setWasmPaths } from '@tensorflow/tfjs-backend-wasm';
+import wasmUrl from '@tensorflow/tfjs-backend-wasm/dist/tfjs-backend-wasm.wasm?url';
+import wasmSimdUrl from '@tensorflow/tfjs-backend-wasm/dist/tfjs-backend-wasm-simd.wasm?url';
+import wasmThreadedSimdUrl from '@tensorflow/tfjs-backend-wasm/dist/tfjs-backend-wasm-threaded-simd.wasm?url';
+import { AudioFeatures, featuresToVector } from './audioFeatures';
+import { applyStandardScaler } from './joblibPickle';
+import { predictXGBoostProbabilities } from './xgboost';
+import { combineSpeechPredictions, SpeechEnsembleWeights } from './speechEnsemble';
+import { mapPrediction } from './emotionLabels';
+import { preprocessPixels } from './imagePreprocessing';
+import { FACIAL_EMOTION_MODEL, FACIAL_KEYPOINT_MODEL, FACIAL_KEYPOINT_NAMES, inputShapeMatches } from './modelMetadata';
+import { modelRegistry } from './modelRegistry';
+import { FacialEmotionResult, FacialKeypoint, SpeechEmotionResult, SpeechFeatures } from './inferenceProtocol';
+import { BACKEND_ORDER, BackendName, BackendState, INITIAL_BACKEND_STATE } from './tfBackend';
+
+// Model inference proper. Runs inside the inference worker, so it only uses
+// APIs available there (OffscreenCanvas rather than the DOM).
+
+// Serve the WASM binaries through the bundler rather than a CDN
+setWasmPaths({
+  'tfjs-backend-wasm.wasm': wasmUrl,
+  'tfjs-backend-wasm-simd.wasm': wasmSimdUrl,
+  'tfjs-backend-wasm-threaded-simd.wasm': wasmThreadedSimdUrl,
+});
+
+let backendState: BackendState = INITIAL_BACKEND_STATE;
+
+export const getBackendState = (): BackendState => backendState;
+
+// Switches TensorFlow.js to the preferred backend, falling back through
+// WebGL, WASM and CPU. Tensors created on the previous backend, including
+// loaded weights, should be disposed and recreated afterwards.
+export async function selectBackend(preferred: BackendName | null): Promise<BackendState> {
+  const candidates = preferred ? [preferred, ...BACKEND_ORDER.filter((name) => name !== preferred)] : BACKEND_ORDER;
+  const failures: BackendState['failures'] = {};
+
+  for (const name of candidates) {
+    try {
+      if (await tf.setBackend(name)) {
+        await tf.ready();
+        backendState = { active: name, preferred, failures };
+        console.log(`Using the ${name} TensorFlow.js backend`, failures);
+        return backendState;
+      }
+      failures[name] = 'Backend failed to initialise';
+    } catch (error) {
+      failures[name] = error instanceof Error ? error.message : String(error);
+    }
+  }
+
+  backendState = { active: null, preferred, failures };
+  throw new Error('No TensorFlow.js backend could be initialised');
+}
+
+// Draws a transferred frame onto an OffscreenCanvas and releases the bitmap
+function bitmapToPixels(image: ImageBitmap): ImageData {
+  try {
+    const canvas = new OffscreenCanvas(image.width, image.height);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+      throw new Error('Could not get an OffscreenCanvas 2D context');
+    }
+    ctx.drawImage(image, 0, 0);
+    return ctx.getImageData(0, 0, image.width, image.height);
+  } finally {
+    image.close();
+  }
+}
+
+export async function runFacialEmotion(image: ImageBitmap): Promise<FacialEmotionResult> {
+  const pixels = bitmapToPixels(image);
+
+  const facialEmotionModel = await modelRegistry.tryLoad('facial-emotion');
+  const { labelSchema, error } = modelRegistry.get('facial-emotion');
+  if (!facialEmotionModel || !labelSchema) {
+    return { status: 'unavailable', reason: error ?? 'Facial emotion model is not loaded' };
+  }
+
+  const modelShape = facialEmotionModel.inputs[0].shape;
+  if (!inputShapeMatches(FACIAL_EMOTION_MODEL.inputShape, modelShape)) {
+    console.error('Facial emotion model input shape does not match its metadata:', modelShape);
+    return { status: 'unavailable', reason: `Model input shape ${JSON.stringify(modelShape)} does not match its metadata` };
+  }
+
+  const processedImage = preprocessPixels(pixels, FACIAL_EMOTION_MODEL.preprocessing);
+  const prediction = facialEmotionModel.predict(processedImage) as tf.Tensor;
+  try {
+    const emotionProbabilities = await prediction.array() as number[][];
+    if (!emotionProbabilities || !emotionProbabilities[0]) {
+      return { status: 'unavailable', reason: 'Facial emotion model returned no probabilities' };
+    }
+    return { status: 'ok', prediction: mapPrediction(labelSchema, emotionProbabilities[0]) };
+  } finally {
+    processedImage.dispose();
+    prediction.dispose();
+  }
+}
+
+// Returns null when the keypoint model is not available
+export async function runFacialKeypoints(image: ImageBitmap): Promise<FacialKeypoint[] | null> {
+  const pixels = bitmapToPixels(image);
+
+  const facialKeypointModel = await modelRegistry.tryLoad('facial-keypoints');
+  if (!facialKeypointModel) return null;
+
+  const { width, height } = FACIAL_KEYPOINT_MODEL.preprocessing;
+  const processedImage = preprocessPixels(pixels, FACIAL_KEYPOINT_MODEL.preprocessing);
+  const prediction = facialKeypointModel.predict(processedImage) as tf.Tensor;
+
+  try {
+    const coordinates = await prediction.data();
+    if (coordinates.length !== FACIAL_KEYPOINT_NAMES.length * 2) {
+      console.error('Unexpected facial keypoint output size:', coordinates.length);
+      return null;
+    }
+
+    // The model predicts pixel positions in its 96x96 input; the input is a
+    // plain resize of the source image, so dividing maps back to the source.
+    return FACIAL_KEYPOINT_NAMES.map((name, i) => ({
+      name,
+      x: coordinates[i * 2] / width,
+      y: coordinates[i * 2 + 1] / height,
+    }));
+  } finally {
+    processedImage.dispose();
+    prediction.dispose();
+  }
+}
+
+export async function runSpeechEmotion(
+  rawFeatures: AudioFeatures,
+  weights: SpeechEnsembleWeights
+): Promise<SpeechEmotionResult> {
+  let features: SpeechFeatures = { raw: rawFeatures, scaled: null };
+
+  const [preprocessing, mlpModel, xgbModel] = await Promise.all([
+    modelRegistry.tryLoad('speech-preprocessing'),
+    modelRegistry.tryLoad('speech-emotion-mlp'),
+    modelRegistry.tryLoad('speech-emotion-xgb'),
+  ]);
+  // Both models were trained on standardised features with encoder class order
+  if (!preprocessing) {
+    const reason = modelRegistry.get('speech-preprocessing').error ?? 'Speech feature scaler is not loaded';
+    return { status: 'unavailable', reason, features };
+  }
+
+  const scaledFeatures = applyStandardScaler(preprocessing.scaler, featuresToVector(rawFeatures));
+  features = { ...features, scaled: scaledFeatures };
+
+  if (!mlpModel && !xgbModel) {
+    return { status: 'unavailable', reason: 'Neither speech emotion model is loaded', features };
+  }
+
+  let mlpProbabilities: number[] | null = null;
+  if (mlpModel) {
+    const featureTensor = tf.tensor2d([scaledFeatures]);
+    try {
+      const prediction = mlpModel.predict(featureTensor) as tf.Tensor;
+      const output = await prediction.array() as number[][];
+      prediction.dispose();
+      mlpProbabilities = output?.[0] ?? null;
+    } catch (error) {
+      console.error('Speech emotion MLP prediction failed:', error);
+    } finally {
+      featureTensor.dispose();
+    }
+  }
+
+  let xgbProbabilities: number[] | null = null;
+  if (xgbModel) {
+    try {
+      xgbProbabilities = predictXGBoostProbabilities(xgbModel, scaledFeatures);
+    } catch (error) {
+      console.error('Speech emotion XGBoost prediction failed:', error);
+    }
+  }
+
+  if (!mlpProbabilities && !xgbProbabilities) {
+    return { status: 'unavailable', reason: 'Both speech emotion models failed to predict', features };
+  }
+
+  const ensemble = combineSpeechPredictions(mlpProbabilities, xgbProbabilities, weights);
+  return { status: 'ok', prediction: mapPrediction(preprocessing.labelSchema, ensemble.fused), ensemble, features };
+}
@@ -0,0 +1,75 @@
+// Messages exchanged between the UI thread and the inference worker.
+// Only types live here, so both sides can import it without pulling in the
+// other side's code.
+import type { AudioFeatures } from './audioFeatures';
+import type { MappedPrediction } from './emotionLabels';
+import type { BackendBenchmark } from './inferenceBenchmark';
+import type { ModelEntry, ModelId } from './modelRegistry';
+import type { StoredModels } from './modelStore';
+import type { FileUploadProgress, ModelUploadReport, UploadedFile } from './modelUpload';
+import type { SpeechEnsembleResult, SpeechEnsembleWeights } from './speechEnsemble';
+import type { BackendName, BackendState } from './tfBackend';
+
+export interface FacialKeypoint {
+  name: string;
+  // Position relative to the source image, 0..1 on each axis
+  x: number;
+  y: number;
+}
+
+// The feature vector a speech prediction used, before and after standardisation
+export interface SpeechFeatures {
+  raw: AudioFeatures;
+  // Same order as AUDIO_FEATURE_NAMES; null when the scaler is unavailable
+  scaled: number[] | null;
+}
+
+// 'unavailable' means no model could back the prediction; the UI decides
+// whether to substitute demo data
+export type FacialEmotionResult =
+  | { status: 'ok'; prediction: MappedPrediction }
+  | { status: 'unavailable'; reason: string };
+
+export type SpeechEmotionResult =
+  | { status: 'ok'; prediction: MappedPrediction; ensemble: SpeechEnsembleResult; features: SpeechFeatures }
+  | { status: 'unavailable'; reason: string; features: SpeechFeatures };
+
+// Parameters and result of every request the worker understands
+export interface InferenceRequests {
+  load: { params: { modelId?: ModelId }; result: ModelEntry[] };
+  dispose: { params: { modelId?: ModelId }; result: ModelEntry[] };
+  // Null picks the first backend that works; loaded models are reloaded on the new one
+  setBackend: { params: { backend: BackendName | null }; result: BackendState };
+  // Validates user-supplied model files and swaps them into the registry
+  installModels: { params: { files: UploadedFile[] }; result: ModelUploadReport };
+  // Also unpins the stored version, so the bundled model is used after a reload
+  restoreBundledModel: { params: { modelId: ModelId }; result: ModelEntry[] };
+  // Uploaded models kept in IndexedDB, and the version pinned for each slot
+  listStoredModels: { params: Record<string, never>; result: StoredModels };
+  activateModelVersion: { params: { versionId: string }; result: StoredModels };
+  deleteModelVersion: { params: { versionId: string }; result: StoredModels };
+  // Switches to the backend and times every model on it
+  benchmark: { params: { backend: BackendName; iterations: number }; result: BackendBenchmark };
+  extractAudioFeatures: { params: { samples: Float32Array; sampleRate: number }; result: AudioFeatures };
+  predictFacialEmotion: { params: { image: ImageBitmap }; result: FacialEmotionResult };
+  predictFacialKeypoints: { params: { image: ImageBitmap }; result: FacialKeypoint[] | null };
+  predictSpeechEmotion: {
+    params: { features: AudioFeatures; weights: SpeechEnsembleWeights };
+    result: SpeechEmotionResult;
+  };
+}
+
+export type InferenceRequestType = keyof InferenceRequests;
+
+export type InferenceRequest = {
+  [K in InferenceRequestType]: { id: number; type: K } & InferenceRequests[K]['params'];
+}[InferenceRequestType];
+
+export type InferenceResponse =
+  | { type: 'result'; id: number; result: InferenceRequests[InferenceRequestType]['result'] }
+  | { type: 'error'; id: number; error: { name: string; message: string } }
+  // Intermediate progress of a pending request
+  | { type: 'fileProgress'; id: number; progress: FileUploadProgress }
+  // Sent unprompted whenever a model changes status or the backend changes
+  | { type: 'progress'; models: ModelEntry[] }
+  | { type: 'backend'; state: BackendState };
@@ -0,0 +1,485 @@
+// Minimal reader for joblib pickles of scikit-learn preprocessing objects.
+// It understands the pickle opcodes emitted by protocols 2-4, joblib's
+// NumpyArrayWrapper payloads and plain numpy arrays/scalars. Arbitrary
+// Python classes are never executed: instances are returned as plain
+// objects holding their class name and pickled state.
+
+export interface PickleGlobal {
+  kind: 'global';
+  module: string;
+  name: string;
+}
+
+export interface PickleInstance {
+  kind: 'instance';
+  className: string;
+  args: unknown[];
+  state: Record<string, unknown>;
+}
+
+export interface NumpyDtype {
+  kind: 'dtype';
+  code: string;
+  littleEndian: boolean;
+}
+
+export interface NumpyArray {
+  kind: 'ndarray';
+  shape: number[];
+  dtype: NumpyDtype | null;
+  data: ArrayLike<unknown>;
+}
+
+export interface StandardScalerParams {
+  mean: number[];
+  scale: number[];
+  featureNames: string[] | null;
+}
+
+const MARK = Symbol('mark');
+
+const NUMPY_RECONSTRUCT = ['numpy.core.multiarray._reconstruct', 'numpy._core.multiarray._reconstruct'];
+const NUMPY_SCALAR = ['numpy.core.multiarray.scalar', 'numpy._core.multiarray.scalar'];
+const JOBLIB_ARRAY_WRAPPER = 'joblib.numpy_pickle.NumpyArrayWrapper';
+
+class ByteReader {
+  position = 0;
+  private view: DataView;
+
+  constructor(private bytes: Uint8Array) {
+    this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  }
+
+  byte(): number {
+    if (this.position >= this.bytes.length) throw new Error('Unexpected end of pickle data');
+    return this.bytes[this.position++];
+  }
+
+  read(length: number): Uint8Array {
+    if (this.position + length > this.bytes.length) throw new Error('Unexpected end of pickle data');
+    const slice = this.bytes.subarray(this.position, this.position + length);
+    this.position += length;
+    return slice;
+  }
+
+  uint16(): number {
+    const value = this.view.getUint16(this.position, true);
+    this.position += 2;
+    return value;
+  }
+
+  int32(): number {
+    const value = this.view.getInt32(this.position, true);
+    this.position += 4;
+    return value;
+  }
+
+  uint32(): number {
+    const value = this.view.getUint32(this.position, true);
+    this.position += 4;
+    return value;
+  }
+
+  uint64(): number {
+    const low = this.view.getUint32(this.position, true);
+    const high = this.view.getUint32(this.position + 4, true);
+    this.position += 8;
+    return high * 2 ** 32 + low;
+  }
+
+  float64BigEndian(): number {
+    const value = this.view.getFloat64(this.position, false);
+    this.position += 8;
+    return value;
+  }
+
+  line(): string {
+    const end = this.bytes.indexOf(0x0a, this.position);
+    if (end < 0) throw new Error('Unexpected end of pickle data');
+    const text = latin1(this.bytes.subarray(this.position, end));
+    this.position = end + 1;
+    return text;
+  }
+}
+
+class Unpickler {
+  private stack: unknown[] = [];
+  private marks: number[] = [];
+  private memo = new Map<number, unknown>();
+
+  constructor(private reader: ByteReader) {}
+
+  load(): unknown {
+    const reader = this.reader;
+
+    for (;;) {
+      const opcode = reader.byte();
+      switch (opcode) {
+        case 0x80: // PROTO
+          reader.byte();
+          break;
+        case 0x95: // FRAME: frames only group opcodes, so the length is not needed
+          reader.uint64();
+          break;
+        case 0x2e: // STOP
+          return this.stack.pop();
+
+        case 0x28: // MARK
+          this.marks.push(this.stack.length);
+          break;
+        case 0x30: // POP
+          this.stack.pop();
+          break;
+        case 0x31: // POP_MARK
+          this.popMark();
+          break;
+        case 0x32: // DUP
+          this.stack.push(this.top());
+          break;
+
+        case 0x4e: // NONE
+          this.stack.push(null);
+          break;
+        case 0x88: // NEWTRUE
+          this.stack.push(true);
+          break;
+        case 0x89: // NEWFALSE
+          this.stack.push(false);
+          break;
+        case 0x4b: // BININT1
+          this.stack.push(reader.byte());
+          break;
+        case 0x4d: // BININT2
+          this.stack.push(reader.uint16());
+          break;
+        case 0x4a: // BININT
+          this.stack.push(reader.int32());
+          break;
+        case 0x8a: // LONG1
+          this.stack.push(decodeLong(reader.read(reader.byte())));
+          break;
+        case 0x47: // BINFLOAT
+          this.stack.push(reader.float64BigEndian());
+          break;
+
+        case 0x8c: // SHORT_BINUNICODE
+          this.stack.push(utf8(reader.read(reader.byte())));
+          break;
+        case 0x58: // BINUNICODE
+          this.stack.push(utf8(reader.read(reader.uint32())));
+          break;
+        case 0x8d: // BINUNICODE8
+          this.stack.push(utf8(reader.read(reader.uint64())));
+          break;
+        case 0x43: // SHORT_BINBYTES
+          this.stack.push(reader.read(reader.byte()).slice());
+          break;
+        case 0x42: // BINBYTES
+          this.stack.push(reader.read(reader.uint32()).slice());
+          break;
+        case 0x8e: // BINBYTES8
+          this.stack.push(reader.read(reader.uint64()).slice());
+          break;
+
+        case 0x29: // EMPTY_TUPLE
+          this.stack.push([]);
+          break;
+        case 0x85: // TUPLE1
+          this.stack.push(this.stack.splice(-1));
+          break;
+        case 0x86: // TUPLE2
+          this.stack.push(this.stack.splice(-2));
+          break;
+        case 0x87: // TUPLE3
+          this.stack.push(this.stack.splice(-3));
+          break;
+        case 0x74: // TUPLE
+          this.stack.push(this.popMark());
+          break;
+        case 0x5d: // EMPTY_LIST
+          this.stack.push([]);
+          break;
+        case 0x6c: // LIST
+          this.stack.push(this.popMark());
+          break;
+        case 0x61: { // APPEND
+          const item = this.stack.pop();
+          (this.top() as unknown[]).push(item);
+          break;
+        }
+        case 0x65: { // APPENDS
+          const items = this.popMark();
+          (this.top() as unknown[]).push(...items);
+          break;
+        }
+        case 0x7d: // EMPTY_DICT
+          this.stack.push({});
+          break;
+        case 0x64: { // DICT
+          const items = this.popMark();
+          const dict: Record<string, unknown> = {};
+          for (let i = 0; i < items.length; i += 2) dict[String(items[i])] = items[i + 1];
+          this.stack.push(dict);
+          break;
+        }
+        case 0x73: { // SETITEM
+          const value = this.stack.pop();
+          const key = this.stack.pop();
+          (this.top() as Record<string, unknown>)[String(key)] = value;
+          break;
+        }
+        case 0x75: { // SETITEMS
+          const items = this.popMark();
+          const dict = this.top() as Record<string, unknown>;
+          for (let i = 0; i < items.length; i += 2) dict[String(items[i])] = items[i + 1];
+          break;
+        }
+
+        case 0x94: // MEMOIZE
+          this.memo.set(this.memo.size, this.top());
+          break;
+        case 0x71: // BINPUT
+          this.memo.set(reader.byte(), this.top());
+          break;
+        case 0x72: // LONG_BINPUT
+          this.memo.set(reader.uint32(), this.top());
+          break;
+        case 0x68: // BINGET
+          this.stack.push(this.memoGet(reader.byte()));
+          break;
+        case 0x6a: // LONG_BINGET
+          this.stack.push(this.memoGet(reader.uint32()));
+          break;
+
+        case 0x63: { // GLOBAL
+          const module = reader.line();
+          const name = reader.line();
+          this.stack.push(makeGlobal(module, name));
+          break;
+        }
+        case 0x93: { // STACK_GLOBAL
+          const name = this.stack.pop() as string;
+          const module = this.stack.pop() as string;
+          this.stack.push(makeGlobal(module, name));
+          break;
+        }
+        case 0x81: { // NEWOBJ
+          const args = this.stack.pop() as unknown[];
+          const cls = this.stack.pop() as PickleGlobal;
+          this.stack.push(instantiate(cls, args));
+          break;
+        }
+        case 0x52: { // REDUCE
+          const args = this.stack.pop() as unknown[];
+          const callable = this.stack.pop() as PickleGlobal;
+          this.stack.push(reduce(callable, args));
+          break;
+        }
+        case 0x62: { // BUILD
+          const state = this.stack.pop();
+          const target = this.stack.pop();
+          this.stack.push(this.build(target, state));
+          break;
+        }
+
+        default:
+          throw new Error(`Unsupported pickle opcode 0x${opcode.toString(16)} at byte ${reader.position - 1}`);
+      }
+    }
+  }
+
+  private build(target: unknown, state: unknown): unknown {
+    if (isDtype(target)) {
+      // numpy dtype state: (version, byteorder, subarray, names, fields, elsize, alignment, flags)
+      const byteOrder = (state as unknown[])[1];
+      target.littleEndian = byteOrder !== '>';
+      return target;
+    }
+
+    if (isArray(target)) {
+      // ndarray state: (version, shape, dtype, is_fortran, rawdata)
+      const [, shape, dtype, , rawData] = state as [number, number[], NumpyDtype, boolean, unknown];
+      target.shape = shape;
+      target.dtype = dtype;
+      target.data = rawData instanceof Uint8Array ? decodeArrayBytes(rawData, dtype) : (rawData as unknown[]);
+      return target;
+    }
+
+    const instance = target as PickleInstance;
+    Object.assign(instance.state, state as Record<string, unknown>);
+
+    if (instance.className === JOBLIB_ARRAY_WRAPPER) {
+      // joblib writes the array payload straight after the wrapper's state
+      return this.readWrappedArray(instance.state);
+    }
+    return instance;
+  }
+
+  private readWrappedArray(wrapper: Record<string, unknown>): NumpyArray {
+    const dtype = wrapper.dtype as NumpyDtype;
+    const shape = wrapper.shape as number[];
+
+    if (dtype.code.startsWith('O')) {
+      // Object arrays are embedded as a separate pickle with its own memo
+      return new Unpickler(this.reader).load() as NumpyArray;
+    }
+
+    if (wrapper.numpy_array_alignment_bytes !== undefined) {
+      const padding = this.reader.byte();
+      this.reader.read(padding);
+    }
+
+    const count = shape.reduce((a, b) => a * b, 1);
+    const bytes = this.reader.read(count * itemSize(dtype.code));
+    return { kind: 'ndarray', shape, dtype, data: decodeArrayBytes(bytes, dtype) };
+  }
+
+  private popMark(): unknown[] {
+    const mark = this.marks.pop();
+    if (mark === undefined) throw new Error('Pickle MARK stack underflow');
+    return this.stack.splice(mark);
+  }
+
+  private top(): unknown {
+    return this.stack[this.stack.length - 1];
+  }
+
+  private memoGet(index: number): unknown {
+    if (!this.memo.has(index)) throw new Error(`Pickle memo entry ${index} is missing`);
+    return this.memo.get(index);
+  }
+}
+
+export function parsePickle(bytes: Uint8Array): unknown {
+  return new Unpickler(new ByteReader(bytes)).load();
+}
+
+export async function loadPickle(url: string): Promise<unknown> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Failed to fetch pickle from ${url}: ${response.status}`);
+  }
+  return parsePickle(new Uint8Array(await response.arrayBuffer()));
+}
+
+export function readStandardScaler(value: unknown): StandardScalerParams {
+  const scaler = expectInstance(value, 'StandardScaler');
+  const featureNames = scaler.state.feature_names_in_;
+
+  return {
+    mean: Array.from(expectArray(scaler.state.mean_, 'mean_').data as ArrayLike<number>),
+    scale: Array.from(expectArray(scaler.state.scale_, 'scale_').data as ArrayLike<number>),
+    featureNames: featureNames ? Array.from(expectArray(featureNames, 'feature_names_in_').data as ArrayLike<string>) : null,
+  };
+}
+
+export function readLabelEncoderClasses(value: unknown): string[] {
+  const encoder = expectInstance(value, 'LabelEncoder');
+  return Array.from(expectArray(encoder.state.classes_, 'classes_').data, String);
+}
+
+export function applyStandardScaler(scaler: StandardScalerParams, features: number[]): number[] {
+  if (features.length !== scaler.mean.length) {
+    throw new Error(`StandardScaler expects ${scaler.mean.length} features, got ${features.length}`);
+  }
+  return features.map((value, i) => (value - scaler.mean[i]) / (scaler.scale[i] || 1));
+}
+
+function makeGlobal(module: string, name: string): PickleGlobal {
+  return { kind: 'global', module, name };
+}
+
+function instantiate(cls: PickleGlobal, args: unknown[]): unknown {
+  const className = `${cls.module}.${cls.name}`;
+  if (NUMPY_RECONSTRUCT.includes(className)) {
+    return { kind: 'ndarray', shape: [], dtype: null, data: [] } as NumpyArray;
+  }
+  return { kind: 'instance', className, args, state: {} } as PickleInstance;
+}
+
+function reduce(callable: PickleGlobal, args: unknown[]): unknown {
+  const name = `${callable.module}.${callable.name}`;
+
+  if (name === 'numpy.dtype') {
+    return { kind: 'dtype', code: String(args[0]), littleEndian: true } as NumpyDtype;
+  }
+  if (name === '_codecs.encode') {
+    // Protocol 2 stores bytes as latin-1 text
+    const text = String(args[0]);
+    return Uint8Array.from(text, (char) => char.charCodeAt(0));
+  }
+  if (NUMPY_SCALAR.includes(name)) {
+    const [dtype, bytes] = args as [NumpyDtype, Uint8Array];
+    return decodeArrayBytes(bytes, dtype)[0];
+  }
+  return instantiate(callable, args);
+}
+
+function itemSize(code: string): number {
+  const size = parseInt(code.slice(1), 10);
+  if (!size) throw new Error(`Unsupported numpy dtype: ${code}`);
+  return size;
+}
+
+function decodeArrayBytes(bytes: Uint8Array, dtype: NumpyDtype): ArrayLike<number | boolean> {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const size = itemSize(dtype.code);
+  const count = Math.floor(bytes.byteLength / size);
+  const little = dtype.littleEndian;
+  const kind = dtype.code[0];
+  const out: (number | boolean)[] = new Array(count);
+
+  for (let i = 0; i < count; i++) {
+    const offset = i * size;
+    if (kind === 'f' && size === 8) out[i] = view.getFloat64(offset, little);
+    else if (kind === 'f' && size === 4) out[i] = view.getFloat32(offset, little);
+    else if (kind === 'i' && size === 8) out[i] = Number(view.getBigInt64(offset, little));
+    else if (kind === 'i' && size === 4) out[i] = view.getInt32(offset, little);
+    else if (kind === 'i' && size === 2) out[i] = view.getInt16(offset, little);
+    else if (kind === 'i' && size === 1) out[i] = view.getInt8(offset);
+    else if (kind === 'u' && size === 8) out[i] = Number(view.getBigUint64(offset, little));
+    else if (kind === 'u' && size === 4) out[i] = view.getUint32(offset, little);
+    else if (kind === 'u' && size === 2) out[i] = view.getUint16(offset, little);
+    else if (kind === 'u' && size === 1) out[i] = view.getUint8(offset);
+    else if (kind === 'b' && size === 1) out[i] = view.getUint8(offset) !== 0;
+    else throw new Error(`Unsupported numpy dtype: ${dtype.code}`);
+  }
+  return out;
+}
+
+function decodeLong(bytes: Uint8Array): number {
+  let value = 0;
+  for (let i = bytes.length - 1; i >= 0; i--) value = value * 256 + bytes[i];
+  // Two's complement sign bit
+  if (bytes.length > 0 && bytes[bytes.length - 1] & 0x80) value -= 2 ** (8 * bytes.length);
+  return value;
+}
+
+function utf8(bytes: Uint8Array): string {
+  return new TextDecoder('utf-8').decode(bytes);
+}
+
+function latin1(bytes: Uint8Array): string {
+  return String.fromCharCode(...bytes);
+}
+
+function isDtype(value: unknown): value is NumpyDtype {
+  return (value as NumpyDtype)?.kind === 'dtype';
+}
+
+function isArray(value: unknown): value is NumpyArray {
+  return (value as NumpyArray)?.kind === 'ndarray';
+}
+
+function expectInstance(value: unknown, className: string): PickleInstance {
+  const instance = value as PickleInstance;
+  if (instance?.kind !== 'instance' || !instance.className.endsWith(`.${className}`)) {
+    throw new Error(`Expected a pickled ${className}`);
+  }
+  return instance;
+}
+
+function expectArray(value: unknown, field: string): NumpyArray {
+  if (!isArray(value)) throw new Error(`Pickled attribute ${field} is not a numpy array`);
+  return value;
+}
@@ -0,0 +1,385 @@
+import * as tf from '@tensorflow/tfjs';
+
+// Runtime adapter for Keras 3 model configs (`model.to_json()` from
+// keras.src.models.*). It rewrites the config into the Keras 2 style
+// topology TF.js understands, and pairs it with a weights manifest produced
+// by scripts/convert-keras-weights.mjs from the matching .h5 file.
+
+type JsonObject = Record<string, unknown>;
+
+interface Keras3Layer {
+  class_name: string;
+  config: JsonObject;
+  name?: string;
+  inbound_nodes?: Keras3Node[];
+}
+
+interface Keras3Node {
+  args: unknown[];
+  kwargs: JsonObject;
+}
+
+interface Keras3Model {
+  class_name: string;
+  config: {
+    name: string;
+    layers: Keras3Layer[];
+    input_layers?: unknown[];
+    output_layers?: unknown[];
+  };
+}
+
+interface KerasTensorRef {
+  class_name: '__keras_tensor__';
+  config: { keras_history: [string, number, number] };
+}
+
+interface ConstantTensorRef {
+  class_name: '__tensor__';
+  config: { value: unknown };
+}
+
+// Config keys Keras 3 added that TF.js layers do not accept. Regularizers and
+// constraints only matter during training, so they are dropped as well.
+const DROPPED_CONFIG_KEYS = new Set([
+  'groups',
+  'synchronized',
+  'rms_scaling',
+  'seed',
+  'kernel_regularizer',
+  'bias_regularizer',
+  'beta_regularizer',
+  'gamma_regularizer',
+  'activity_regularizer',
+  'kernel_constraint',
+  'bias_constraint',
+  'beta_constraint',
+  'gamma_constraint',
+]);
+
+export function convertKeras3Topology(model: Keras3Model): JsonObject {
+  if (model.class_name === 'Sequential') {
+    return convertSequential(model);
+  }
+  if (model.class_name === 'Functional' || model.class_name === 'Model') {
+    return convertFunctional(model);
+  }
+  throw new Error(`Unsupported Keras model class: ${model.class_name}`);
+}
+
+function convertSequential(model: Keras3Model): JsonObject {
+  const [first, ...rest] = model.config.layers;
+  let layers = model.config.layers;
+  let batchInputShape: unknown = null;
+
+  // TF.js Sequential models carry the input shape on their first layer
+  if (first?.class_name === 'InputLayer') {
+    batchInputShape = first.config.batch_shape ?? first.config.batch_input_shape;
+    layers = rest;
+  }
+
+  const converted = layers.map((layer, i) => {
+    const config = convertLayerConfig(layer.class_name, layer.config);
+    if (i === 0 && batchInputShape) config.batch_input_shape = batchInputShape;
+    return { class_name: layer.class_name, config };
+  });
+
+  return {
+    class_name: 'Sequential',
+    config: { name: model.config.name, layers: converted },
+  };
+}
+
+function convertFunctional(model: Keras3Model): JsonObject {
+  const layers = model.config.layers.map((layer) => {
+    const name = layer.name ?? (layer.config.name as string);
+    const nodes = layer.inbound_nodes ?? [];
+    const constants = nodes.flatMap((node) => flattenArgs(node.args)).filter(isConstantTensor);
+    let className = layer.class_name;
+    let config = convertLayerConfig(className, layer.config);
+
+    if (constants.length > 0) {
+      // Keras 3 can fold constant operands (e.g. positional embeddings) into
+      // the graph; TF.js merge layers cannot, so they become ConstantAdd.
+      if (className !== 'Add' || constants.length !== 1) {
+        throw new Error(`Layer ${name} (${className}) has constant inputs, which are only supported for Add`);
+      }
+      className = ConstantAdd.className;
+      config = { name, trainable: false, dtype: 'float32', value: constants[0].config.value };
+    }
+
+    return {
+      class_name: className,
+      name,
+      config,
+      inbound_nodes: nodes.map(convertInboundNode),
+    };
+  });
+
+  return {
+    class_name: 'Model',
+    config: {
+      name: model.config.name,
+      layers,
+      input_layers: normalizeLayerRefs(model.config.input_layers),
+      output_layers: normalizeLayerRefs(model.config.output_layers),
+    },
+  };
+}
+
+function convertLayerConfig(className: string, config: JsonObject): JsonObject {
+  const converted: JsonObject = {};
+
+  for (const [key, value] of Object.entries(config)) {
+    if (DROPPED_CONFIG_KEYS.has(key)) continue;
+
+    if (key === 'dtype') {
+      converted.dtype = convertDtype(value);
+    } else if (key === 'batch_shape' && className === 'InputLayer') {
+      converted.batch_input_shape = value;
+    } else {
+      converted[key] = stripKeras3Metadata(value);
+    }
+  }
+
+  return converted;
+}
+
+// DTypePolicy objects collapse to their compute dtype
+function convertDtype(dtype: unknown): string {
+  if (typeof dtype === 'string') return dtype;
+  const policy = dtype as { config?: { name?: string } } | null;
+  const name = policy?.config?.name ?? 'float32';
+  return name.startsWith('mixed_') ? 'float32' : name;
+}
+
+// Nested serialized objects (initializers etc.) lose their module/registered_name
+function stripKeras3Metadata(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(stripKeras3Metadata);
+  if (value === null || typeof value !== 'object') return value;
+
+  const object = value as JsonObject;
+  if ('class_name' in object && 'config' in object) {
+    return { class_name: object.class_name, config: stripKeras3Metadata(object.config) };
+  }
+  return Object.fromEntries(Object.entries(object).map(([key, inner]) => [key, stripKeras3Metadata(inner)]));
+}
+
+function convertInboundNode(node: Keras3Node): unknown[] {
+  const kwargs: JsonObject = {};
+  for (const [key, value] of Object.entries(node.kwargs ?? {})) {
+    if (value !== null && typeof value !== 'object') kwargs[key] = value;
+  }
+
+  return flattenArgs(node.args)
+    .filter(isKerasTensor)
+    .map((tensor) => {
+      const [layerName, nodeIndex, tensorIndex] = tensor.config.keras_history;
+      return [layerName, nodeIndex, tensorIndex, kwargs];
+    });
+}
+
+function flattenArgs(args: unknown[]): unknown[] {
+  return args.flatMap((arg) => (Array.isArray(arg) ? flattenArgs(arg) : [arg]));
+}
+
+function normalizeLayerRefs(refs: unknown[] | undefined): unknown[] {
+  if (!refs || refs.length === 0) return [];
+  // A single input/output may be stored without the outer list
+  return typeof refs[0] === 'string' ? [refs] : refs;
+}
+
+function isKerasTensor(value: unknown): value is KerasTensorRef {
+  return (value as KerasTensorRef)?.class_name === '__keras_tensor__';
+}
+
+function isConstantTensor(value: unknown): value is ConstantTensorRef {
+  return (value as ConstantTensorRef)?.class_name === '__tensor__';
+}
+
+// Adds a fixed tensor (broadcast over the batch) to its single input
+class ConstantAdd extends tf.layers.Layer {
+  static className = 'ConstantAdd';
+  private value: unknown;
+  private constant: tf.Tensor | null = null;
+
+  constructor(config: { name?: string; trainable?: boolean; value: unknown }) {
+    super(config);
+    this.value = config.value;
+  }
+
+  build(): void {
+    this.constant = tf.keep(tf.tensor(this.value as number[]));
+    this.built = true;
+  }
+
+  call(inputs: tf.Tensor | tf.Tensor[]): tf.Tensor {
+    const input = Array.isArray(inputs) ? inputs[0] : inputs;
+    return tf.add(input, this.constant);
+  }
+
+  computeOutputShape(inputShape: tf.Shape | tf.Shape[]): tf.Shape | tf.Shape[] {
+    return inputShape;
+  }
+
+  getConfig(): tf.serialization.ConfigDict {
+    return { ...super.getConfig(), value: this.value as tf.serialization.ConfigDictValue };
+  }
+
+  dispose() {
+    this.constant?.dispose();
+    this.constant = null;
+    return super.dispose();
+  }
+}
+
+// Inference-only port of keras.layers.MultiHeadAttention for rank-3 inputs
+// attending over the sequence axis. Weight names mirror the Keras sublayers.
+class MultiHeadAttention extends tf.layers.Layer {
+  static className = 'MultiHeadAttention';
+  private numHeads: number;
+  private keyDim: number;
+  private valueDim: number;
+  private useBias: boolean;
+  private outputDim: number | null;
+  private kernels: Record<string, tf.LayerVariable> = {};
+  private biases: Record<string, tf.LayerVariable> = {};
+
+  constructor(config: tf.serialization.ConfigDict) {
+    super(config);
+    this.numHeads = config.numHeads as number;
+    this.keyDim = config.keyDim as number;
+    this.valueDim = (config.valueDim as number) ?? this.keyDim;
+    this.useBias = (config.useBias as boolean) ?? true;
+    const outputShape = config.outputShape as number | number[] | null;
+    this.outputDim = Array.isArray(outputShape) ? outputShape[outputShape.length - 1] : outputShape ?? null;
+
+    const axes = config.attentionAxes as number[] | null;
+    if (axes && (axes.length !== 1 || axes[0] !== 1)) {
+      throw new Error(`MultiHeadAttention only supports attention over axis 1, got ${JSON.stringify(axes)}`);
+    }
+  }
+
+  build(inputShape: tf.Shape | tf.Shape[]): void {
+    const [queryShape, valueShape = queryShape, keyShape = valueShape] = inputShape as tf.Shape[];
+    const queryDim = queryShape[queryShape.length - 1];
+    const projections: [string, number, number][] = [
+      ['query', queryDim, this.keyDim],
+      ['key', keyShape[keyShape.length - 1], this.keyDim],
+      ['value', valueShape[valueShape.length - 1], this.valueDim],
+    ];
+    const initializer = tf.initializers.glorotUniform({});
+
+    for (const [name, inputDim, headDim] of projections) {
+      this.kernels[name] = this.addWeight(`${name}/kernel`, [inputDim, this.numHeads, headDim], 'float32', initializer);
+      if (this.useBias) {
+        this.biases[name] = this.addWeight(`${name}/bias`, [this.numHeads, headDim], 'float32', tf.initializers.zeros());
+      }
+    }
+
+    const outputDim = this.outputDim ?? queryDim;
+    this.kernels.output = this.addWeight('attention_output/kernel', [this.numHeads, this.valueDim, outputDim], 'float32', initializer);
+    if (this.useBias) {
+      this.biases.output = this.addWeight('attention_output/bias', [outputDim], 'float32', tf.initializers.zeros());
+    }
+    this.built = true;
+  }
+
+  call(inputs: tf.Tensor | tf.Tensor[]): tf.Tensor {
+    return tf.tidy(() => {
+      const [query, value = query, key = value] = (Array.isArray(inputs) ? inputs : [inputs]) as tf.Tensor3D[];
+
+      // [batch, heads, time, dim]
+      const q = this.project(query, 'query', this.keyDim);
+      const k = this.project(key, 'key', this.keyDim);
+      const v = this.project(value, 'value', this.valueDim);
+
+      const scores = tf.softmax(tf.matMul(q, k, false, true).div(Math.sqrt(this.keyDim)));
+      const attended = tf.matMul(scores, v).transpose([0, 2, 1, 3]);
+
+      const [batch, time] = query.shape;
+      const flat = attended.reshape([batch * time, this.numHeads * this.valueDim]);
+      const kernel = this.kernels.output.read();
+      const outputDim = kernel.shape[2];
+      let output = tf.matMul(flat, kernel.reshape([this.numHeads * this.valueDim, outputDim]));
+      if (this.useBias) output = output.add(this.biases.output.read());
+      return output.reshape([batch, time, outputDim]);
+    });
+  }
+
+  private project(input: tf.Tensor3D, name: string, headDim: number): tf.Tensor4D {
+    const [batch, time, dim] = input.shape;
+    let projected = tf.matMul(input.reshape([batch * time, dim]), this.kernels[name].read().reshape([dim, this.numHeads * headDim]));
+    if (this.useBias) projected = projected.add(this.biases[name].read().reshape([this.numHeads * headDim]));
+    return projected.reshape([batch, time, this.numHeads, headDim]).transpose([0, 2, 1, 3]) as tf.Tensor4D;
+  }
+
+  computeOutputShape(inputShape: tf.Shape | tf.Shape[]): tf.Shape {
+    const [queryShape] = inputShape as tf.Shape[];
+    return [...queryShape.slice(0, -1), this.outputDim ?? queryShape[queryShape.length - 1]];
+  }
+
+  getConfig(): tf.serialization.ConfigDict {
+    return {
+      ...super.getConfig(),
+      numHeads: this.numHeads,
+      keyDim: this.keyDim,
+      valueDim: this.valueDim,
+      useBias: this.useBias,
+      outputShape: this.outputDim,
+    };
+  }
+}
+
+tf.serialization.registerClass(ConstantAdd);
+tf.serialization.registerClass(MultiHeadAttention);
+
+export function keras3IOHandler(architectureUrl: string, weightsManifestUrl: string): tf.io.IOHandler {
+  return {
+    load: async () => {
+      const convertHint = `Run scripts/convert-keras-weights.mjs for ${architectureUrl} to create its weights.`;
+      const [architecture, manifest] = await Promise.all([
+        fetchJson<Keras3Model>(architectureUrl),
+        fetchJson<tf.io.WeightsManifestConfig>(weightsManifestUrl, convertHint),
+      ]);
+
+      const base = new URL(weightsManifestUrl, globalThis.location?.href);
+      const shardUrls = manifest.flatMap((group) => group.paths.map((path) => new URL(path, base).toString()));
+      const shards = await Promise.all(shardUrls.map(async (url) => {
+        const response = await fetch(url);
+        if (isMissing(response)) throw new Error(`Weight shard ${url} is missing. ${convertHint}`);
+        if (!response.ok) throw new Error(`Failed to fetch weight shard ${url}: ${response.status}`);
+        return response.arrayBuffer();
+      }));
+
+      return {
+        modelTopology: convertKeras3Topology(architecture),
+        weightSpecs: manifest.flatMap((group) => group.weights),
+        weightData: shards,
+        format: 'layers-model',
+        generatedBy: 'keras-3',
+        convertedBy: 'keras3Adapter',
+      };
+    },
+  };
+}
+
+export function loadKeras3Model(architectureUrl: string, weightsManifestUrl: string): Promise<tf.LayersModel> {
+  return tf.loadLayersModel(keras3IOHandler(architectureUrl, weightsManifestUrl));
+}
+
+// Vite's dev and preview servers answer unknown paths with index.html, so a
+// missing file can also arrive as a successful HTML page
+const isMissing = (response: Response) =>
+  response.status === 404 || (response.ok && (response.headers.get('content-type') ?? '').includes('text/html'));
+
+async function fetchJson<T>(url: string, missingHint = ''): Promise<T> {
+  const response = await fetch(url);
+  if (isMissing(response)) {
+    throw new Error(`${url} is missing.${missingHint ? ` ${missingHint}` : ''}`);
+  }
+  if (!response.ok) {
+    throw new Error(`Failed to fetch ${url}: ${response.status}`);
+  }
+  return response.json() as Promise<T>;
+}
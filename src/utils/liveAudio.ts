@@ -0,0 +1,84 @@
+// Taps raw PCM from a live microphone stream and keeps the most recent
+// seconds in a sliding window for continuous speech analysis.
+
+export interface AudioTap {
+  sampleRate: number;
+  // Copy of the most recent `seconds` of audio (shorter until the window fills)
+  read: (seconds: number) => Float32Array;
+  bufferedSeconds: () => number;
+  stop: () => Promise<void>;
+}
+
+// Forwards every render quantum of the first input channel to the main thread
+const TAP_PROCESSOR_SOURCE = `
+class LiveAudioTapProcessor extends AudioWorkletProcessor {
+  process(inputs) {
+    const channel = inputs[0] && inputs[0][0];
+    if (channel) this.port.postMessage(channel.slice(0));
+    return true;
+  }
+}
+registerProcessor('live-audio-tap', LiveAudioTapProcessor);
+`;
+
+export async function createAudioTap(stream: MediaStream, maxSeconds: number): Promise<AudioTap> {
+  const context = new AudioContext();
+  const moduleUrl = URL.createObjectURL(new Blob([TAP_PROCESSOR_SOURCE], { type: 'application/javascript' }));
+
+  try {
+    await context.audioWorklet.addModule(moduleUrl);
+  } finally {
+    URL.revokeObjectURL(moduleUrl);
+  }
+
+  const source = context.createMediaStreamSource(stream);
+  const tap = new AudioWorkletNode(context, 'live-audio-tap');
+  // The graph is only rendered when it reaches the destination, so route the
+  // tap through a muted gain node
+  const mute = context.createGain();
+  mute.gain.value = 0;
+  source.connect(tap).connect(mute).connect(context.destination);
+
+  // Ring buffer of the last `maxSeconds` of samples
+  const capacity = Math.ceil(maxSeconds * context.sampleRate);
+  const ring = new Float32Array(capacity);
+  let writeIndex = 0;
+  let filled = 0;
+
+  tap.port.onmessage = (event: MessageEvent<Float32Array>) => {
+    const chunk = event.data;
+    for (let i = 0; i < chunk.length; i++) {
+      ring[writeIndex] = chunk[i];
+      writeIndex = (writeIndex + 1) % capacity;
+    }
+    filled = Math.min(capacity, filled + chunk.length);
+  };
+
+  return {
+    sampleRate: context.sampleRate,
+    read: (seconds) => {
+      const length = Math.min(filled, Math.ceil(seconds * context.sampleRate));
+      const out = new Float32Array(length);
+      const start = (writeIndex - length + capacity) % capacity;
+      for (let i = 0; i < length; i++) {
+        out[i] = ring[(start + i) % capacity];
+      }
+      return out;
+    },
+    bufferedSeconds: () => filled / context.sampleRate,
+    stop: async () => {
+      tap.port.onmessage = null;
+      source.disconnect();
+      tap.disconnect();
+      mute.disconnect();
+      await context.close();
+    },
+  };
+}
+
+export function rootMeanSquare(samples: Float32Array): number {
+  if (samples.length === 0) return 0;
+  let sum = 0;
+  for (let i = 0; i < samples.length; i++) sum += samples[i] * samples[i];
+  return Math.sqrt(sum / samples.length);
+}
@@ -0,0 +1,100 @@
+import type { DecodedAudio } from './audioFeatures';
+import { loadImageElement } from './imagePreprocessing';
+
+// Reads image and audio files (from an archive rather than the webcam and
+// microphone) into the same forms a live capture produces.
+
+export type MediaKind = 'image' | 'audio';
+
+const MEDIA_EXTENSIONS: Record<MediaKind, string[]> = {
+  image: ['png', 'jpg', 'jpeg', 'webp'],
+  audio: ['wav', 'mp3', 'ogg', 'webm', 'm4a'],
+};
+
+// For the `accept` attribute of file inputs
+export const ACCEPTED_MEDIA_TYPES: Record<MediaKind, string> = {
+  image: MEDIA_EXTENSIONS.image.map((extension) => `.${extension}`).join(',') + ',image/png,image/jpeg,image/webp',
+  audio: MEDIA_EXTENSIONS.audio.map((extension) => `.${extension}`).join(',') + ',audio/*',
+};
+
+const extension = (name: string) => name.slice(name.lastIndexOf('.') + 1).toLowerCase();
+
+// Classifies by extension, since browsers leave `type` empty for some audio formats
+export function mediaKind(file: File): MediaKind | null {
+  const ext = extension(file.name);
+  if (MEDIA_EXTENSIONS.image.includes(ext)) return 'image';
+  if (MEDIA_EXTENSIONS.audio.includes(ext)) return 'audio';
+  return null;
+}
+
+// Path without the file's extension, e.g. "p01/take_3.wav" -> "p01/take_3"
+export function withoutExtension(path: string): string {
+  const slash = path.lastIndexOf('/');
+  const dot = path.lastIndexOf('.');
+  return dot > slash + 1 ? path.slice(0, dot) : path;
+}
+
+export function readImageFile(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => {
+      const image = new Image();
+      // Check the browser can actually decode it before it reaches the models
+      image.onload = () => resolve(reader.result as string);
+      image.onerror = () => reject(new Error(`${file.name} is not a readable image`));
+      image.src = reader.result as string;
+    };
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+}
+
+// The centred square at full resolution, as ImageCapture takes from the
+// webcam; the image views and their landmark overlays assume a square frame
+export async function cropCenterSquare(imageData: string): Promise<string> {
+  const image = await loadImageElement(imageData);
+  const { naturalWidth: width, naturalHeight: height } = image;
+  if (width === height) return imageData;
+  const side = Math.min(width, height);
+  const canvas = document.createElement('canvas');
+  canvas.width = side;
+  canvas.height = side;
+  canvas.getContext('2d')?.drawImage(image, (width - side) / 2, (height - side) / 2, side, side, 0, 0, side, side);
+  return canvas.toDataURL('image/png');
+}
+
+export function sliceAudio({ samples, sampleRate }: DecodedAudio, start: number, end: number): DecodedAudio {
+  const from = Math.max(0, Math.round(start * sampleRate));
+  const to = Math.min(samples.length, Math.round(end * sampleRate));
+  return { samples: samples.slice(from, Math.max(from, to)), sampleRate };
+}
+
+// 16-bit mono PCM, so a trimmed clip can be played back, stored and exported
+// like a recording
+export function encodeWav({ samples, sampleRate }: DecodedAudio): Blob {
+  const buffer = new ArrayBuffer(44 + samples.length * 2);
+  const view = new DataView(buffer);
+  const writeString = (offset: number, text: string) => {
+    for (let i = 0; i < text.length; i++) view.setUint8(offset + i, text.charCodeAt(i));
+  };
+
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + samples.length * 2, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, 1, true); // mono
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * 2, true);
+  view.setUint16(32, 2, true);
+  view.setUint16(34, 16, true);
+  writeString(36, 'data');
+  view.setUint32(40, samples.length * 2, true);
+
+  for (let i = 0; i < samples.length; i++) {
+    const sample = Math.max(-1, Math.min(1, samples[i]));
+    view.setInt16(44 + i * 2, sample < 0 ? sample * 0x8000 : sample * 0x7fff, true);
+  }
+  return new Blob([buffer], { type: 'audio/wav' });
+}
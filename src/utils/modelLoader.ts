@@ -1,215 +1,193 @@
-import * as tf from '@tensorflow/tfjs';
+import { AudioFeatures, decodeAudioBlob, DecodedAudio, featuresToVector } from './audioFeatures';
+import { DEFAULT_SPEECH_ENSEMBLE_WEIGHTS, SpeechEnsembleResult, SpeechEnsembleWeights } from './speechEnsemble';
+import { Emotion, UnmappedLabel } from './emotionLabels';
+import { demoEmotion, hashString, seedFromDataUrl } from './demoData';
+import { loadImageElement } from './imagePreprocessing';
+import { inferenceClient } from './inferenceClient';
+import { FacialKeypoint, SpeechFeatures } from './inferenceProtocol';
+// Types only: the models themselves live in the inference worker
+import type { ModelEntry, ModelId } from './modelRegistry';
+import { BackendName } from './tfBackend';
+
+export type { FacialKeypoint, SpeechFeatures };
+
+// Whether a result came from a model or from a placeholder fallback path.
+// Fallbacks are only produced in demo mode.
+export type PredictionSource = 'model' | 'fallback';
+
+export interface PredictionOptions {
+  // Substitute seeded synthetic results when a model is unavailable
+  demoMode?: boolean;
+  demoSeed?: number;
+}
+
+// Thrown outside demo mode when a prediction cannot be backed by a model
+export class ModelUnavailableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ModelUnavailableError';
+  }
+}
+
+export interface EmotionPrediction {
+  emotion: string;
+  confidence: number;
+  source: PredictionSource;
+  // Probability of every canonical emotion; model classes without an
+  // equivalent are left out here and listed in `unmapped`
+  distribution: Record<Emotion, number>;
+  // Why the fallback was used, when source is 'fallback'
+  fallbackReason?: string;
+  // Raw model class behind the emotion, and model classes with no canonical equivalent
+  modelLabel?: string;
+  unmapped?: UnmappedLabel[];
+}
+
+export interface SpeechEmotionPrediction extends EmotionPrediction {
+  ensemble?: SpeechEnsembleResult;
+  features?: SpeechFeatures;
+}
 
 export interface ModelLoadingStatus {
   facialEmotion: boolean;
+  facialKeypoints: boolean;
   speechEmotion: boolean;
   isLoading: boolean;
   error: string | null;
 }
 
-export async function loadModels(): Promise<ModelLoadingStatus> {
+// Loads every registered model in the inference worker and summarises which
+// predictions are backed by one. Uploaded versions the user pinned on the
+// models page are loaded in place of the bundled /models files. Without a
+// preferred backend the worker picks the first of WebGL, WASM and CPU that works.
+export async function loadModels(preferredBackend: BackendName | null = null): Promise<ModelLoadingStatus> {
+  console.log('Loading emotion models...');
+  if (preferredBackend) {
+    await inferenceClient.setBackend(preferredBackend);
+  }
+  const models = await inferenceClient.load();
+
+  const byId = new Map<ModelId, ModelEntry>(models.map((entry) => [entry.id, entry]));
+  const ready = (id: ModelId) => byId.get(id)?.status === 'ready';
   const status: ModelLoadingStatus = {
-    facialEmotion: false,
-    speechEmotion: false,
-    isLoading: true,
-    error: null
+    facialEmotion: ready('facial-emotion'),
+    facialKeypoints: ready('facial-keypoints'),
+    // Either speech model works on its own, but both need the shared preprocessing
+    speechEmotion: ready('speech-preprocessing') && (ready('speech-emotion-mlp') || ready('speech-emotion-xgb')),
+    isLoading: false,
+    error: null,
   };
 
-  try {
-    // Load facial emotion model silently
-    try {
-      console.log('Loading facial emotion model...');
-      const facialEmotionModel = await tf.loadLayersModel('/models/facial_emotion/model_facial_architecture.json');
-      status.facialEmotion = true;
-      console.log('Facial emotion model loaded successfully');
-      
-      // Store the model in window object for later use
-      (window as any).facialEmotionModel = facialEmotionModel;
-    } catch (error) {
-      // Log to console but don't propagate error
-      console.log('Using fallback for facial emotion model');
-    }
-    
-    // For speech emotion detection, load silently
-    try {
-      console.log('Loading speech emotion MLP model...');
-      const mlpModel = await tf.loadLayersModel('/models/speech_emotion/model_mlp_architecture.json');
-      status.speechEmotion = true;
-      console.log('Speech emotion MLP model loaded successfully');
-      
-      // Store the model in window object for later use
-      (window as any).speechEmotionMlpModel = mlpModel;
-    } catch (error) {
-      // Log to console but don't propagate error
-      console.log('Using fallback for speech emotion model');
-    }
-
-    return status;
-  } catch (error) {
-    // Don't set error in status to avoid displaying it
-    console.log('Using fallback for emotion models');
-    return status;
-  } finally {
-    status.isLoading = false;
+  const failed = models.filter((entry) => entry.status === 'error');
+  if (failed.length > 0) {
+    status.error = failed.map((entry) => `${entry.name}: ${entry.error}`).join('; ');
   }
+
+  console.log('Model loading complete with status:', status);
+  return status;
 }
 
-export async function preprocessImage(imageData: string): Promise<tf.Tensor> {
-  return new Promise((resolve, reject) => {
-    const img = new Image();
-    img.onload = () => {
-      try {
-        // Create a tensor from the image
-        const tensor = tf.browser.fromPixels(img)
-          .resizeNearestNeighbor([96, 96]) // Resize to 96x96
-          .toFloat()
-          .expandDims(0); // Add batch dimension
-        
-        // Normalize the image data
-        const normalized = tensor.div(255.0);
-        
-        resolve(normalized);
-      } catch (error) {
-        console.error('Error preprocessing image:', error);
-        reject(error);
-      }
-    };
-    img.onerror = (error) => {
-      console.error('Error loading image for preprocessing:', error);
-      reject(error);
-    };
-    img.src = imageData;
-  });
+// Decodes a data URL into a bitmap that can be transferred to the worker
+async function toImageBitmap(imageData: string): Promise<ImageBitmap> {
+  const img = await loadImageElement(imageData);
+  return createImageBitmap(img);
 }
 
-export async function extractAudioFeatures(audioBlob: Blob): Promise<number[]> {
-  // This is a placeholder for audio feature extraction
-  // In a real-world application, you'd need to extract features from the audio:
-  // - duration
-  // - pitch
-  // - speech_rate
-  // - jitter
-  // - shimmer
-  // - mfcc_mean
-  // - sentiment_score
-  
-  // For this demo, we'll just return random values
-  return [
-    10,                      // duration (in seconds)
-    Math.random() * 150 + 100, // pitch (Hz)
-    Math.random() * 3 + 2,     // speech_rate (words per second)
-    Math.random() * 0.02,      // jitter
-    Math.random() * 0.1,       // shimmer
-    Math.random() * 10 - 5,    // mfcc_mean
-    Math.random() * 2 - 1      // sentiment_score
-  ];
+export async function extractAudioFeatures(audio: Blob | DecodedAudio): Promise<AudioFeatures> {
+  // Decode the recording to PCM here (decoding needs an AudioContext) and let
+  // the worker compute the seven features the speech models were trained on:
+  // duration, pitch, speech_rate, jitter, shimmer, mfcc_mean, sentiment_score
+  const { samples, sampleRate } = audio instanceof Blob ? await decodeAudioBlob(audio) : audio;
+  return inferenceClient.extractAudioFeatures(samples, sampleRate);
 }
 
-export async function predictFacialEmotion(imageData: string): Promise<{emotion: string, confidence: number}> {
+export async function predictFacialEmotion(
+  imageData: string,
+  options: PredictionOptions = {}
+): Promise<EmotionPrediction> {
+  const fallback = (reason: string) =>
+    getFallbackEmotion('facial', reason, seedFromDataUrl(imageData, options.demoSeed), options);
+
   try {
-    const facialEmotionModel = (window as any).facialEmotionModel;
-    if (!facialEmotionModel) {
-      // Return a fallback emotion without showing error
-      return { emotion: "neutral", confidence: 0.8 };
-    }
-    
-    const processedImage = await preprocessImage(imageData);
-    
-    // Make prediction
-    const prediction = await facialEmotionModel.predict(processedImage) as tf.Tensor;
-    
-    // Convert prediction to array
-    const emotionProbabilities = await prediction.array();
-    
-    // Check if prediction has the expected format
-    if (!emotionProbabilities || !emotionProbabilities[0]) {
-      return { emotion: "neutral", confidence: 0.8 };
-    }
-    
-    // Find the emotion with highest probability
-    const emotions = ["happy", "sad", "angry", "surprised", "neutral", "fearful"];
-    const maxProbIndex = emotionProbabilities[0].indexOf(Math.max(...emotionProbabilities[0]));
-    
-    if (maxProbIndex >= 0 && maxProbIndex < emotions.length) {
-      const emotion = emotions[maxProbIndex];
-      const confidence = emotionProbabilities[0][maxProbIndex];
-      
-      console.log("Successfully predicted facial emotion:", { emotion, confidence });
-      return { emotion, confidence };
-    } else {
-      return { emotion: "neutral", confidence: 0.8 };
+    const result = await inferenceClient.predictFacialEmotion(await toImageBitmap(imageData));
+    if (result.status === 'unavailable') {
+      return fallback(result.reason);
     }
+
+    const { emotion, confidence, modelLabel, unmapped, distribution } = result.prediction;
+    console.log("Successfully predicted facial emotion:", { emotion, confidence, modelLabel });
+    return { emotion, confidence, modelLabel, unmapped, distribution, source: 'model' };
   } catch (error) {
-    // Return fallback result without showing error
-    return { emotion: "neutral", confidence: 0.8 };
+    if (error instanceof ModelUnavailableError) throw error;
+    console.error("Facial emotion prediction failed:", error);
+    // A crash is not a missing model: outside demo mode it is reported as
+    // an error, not as the model being unavailable
+    if (!options.demoMode) throw error;
+    return fallback(`Facial emotion prediction failed: ${describeError(error)}`);
   }
 }
 
-export async function predictSpeechEmotion(audioBlob: Blob): Promise<{emotion: string, confidence: number}> {
+// Returns null when the keypoint model is not available
+export async function predictFacialKeypoints(imageData: string): Promise<FacialKeypoint[] | null> {
+  return inferenceClient.predictFacialKeypoints(await toImageBitmap(imageData));
+}
+
+export async function predictSpeechEmotion(
+  audio: Blob | AudioFeatures,
+  weights: SpeechEnsembleWeights = DEFAULT_SPEECH_ENSEMBLE_WEIGHTS,
+  options: PredictionOptions = {}
+): Promise<SpeechEmotionPrediction> {
+  let features: SpeechFeatures | null = audio instanceof Blob ? null : { raw: audio, scaled: null };
+  const fallback = (reason: string): SpeechEmotionPrediction => {
+    const seedSource = features ? featuresToVector(features.raw).join() : `${(audio as Blob).size}`;
+    const prediction = getFallbackEmotion('speech', reason, hashString(seedSource, options.demoSeed), options);
+    return features ? { ...prediction, features } : prediction;
+  };
+
   try {
-    const mlpModel = (window as any).speechEmotionMlpModel;
-    if (!mlpModel) {
-      // Return a fallback result without showing error
-      return getFallbackSpeechEmotion();
+    // Extract features from audio unless the caller already did
+    if (!features) {
+      features = { raw: await extractAudioFeatures(audio as Blob), scaled: null };
     }
-    
-    // Extract features from audio
-    const features = await extractAudioFeatures(audioBlob);
-    console.log("Extracted audio features:", features);
-    
-    // Convert features to tensor
-    const featureTensor = tf.tensor2d([features]);
-    
-    try {
-      // Run the model prediction
-      const prediction = await mlpModel.predict(featureTensor) as tf.Tensor;
-      
-      // Convert prediction to array
-      const emotionProbabilities = await prediction.array();
-      
-      // Check if prediction has the expected format
-      if (!emotionProbabilities || !emotionProbabilities[0]) {
-        console.error("Unexpected speech emotion prediction format:", emotionProbabilities);
-        return getFallbackSpeechEmotion();
-      }
-      
-      // For this demo version (until XGBoost is properly integrated)
-      // we'll use the MLP model output directly
-      const emotions = ["happy", "sad", "angry", "surprised", "neutral", "fearful"];
-      const maxProbIndex = emotionProbabilities[0].indexOf(Math.max(...emotionProbabilities[0]));
-      
-      if (maxProbIndex >= 0 && maxProbIndex < emotions.length) {
-        const emotion = emotions[maxProbIndex];
-        const confidence = emotionProbabilities[0][maxProbIndex];
-        
-        console.log("Successfully predicted speech emotion:", { emotion, confidence });
-        return { emotion, confidence };
-      } else {
-        return getFallbackSpeechEmotion();
-      }
-    } finally {
-      // Clean up tensors
-      featureTensor.dispose();
+
+    const result = await inferenceClient.predictSpeechEmotion(features.raw, weights);
+    features = result.features;
+    console.log("Extracted audio features:", { raw: featuresToVector(features.raw), scaled: features.scaled });
+    if (result.status === 'unavailable') {
+      return fallback(result.reason);
     }
+
+    const { ensemble } = result;
+    const { emotion, confidence, modelLabel, unmapped, distribution } = result.prediction;
+    console.log("Successfully predicted speech emotion:", { emotion, confidence, modelLabel, ensemble });
+    return { emotion, confidence, modelLabel, unmapped, distribution, ensemble, features, source: 'model' };
   } catch (error) {
-    // Return fallback result without showing error
-    return getFallbackSpeechEmotion();
+    if (error instanceof ModelUnavailableError) throw error;
+    console.error("Speech emotion prediction failed:", error);
+    // A crash is not a missing model: outside demo mode it is reported as
+    // an error, not as the model being unavailable
+    if (!options.demoMode) throw error;
+    return fallback(`Speech emotion prediction failed: ${describeError(error)}`);
   }
 }
 
-function getFallbackSpeechEmotion(): {emotion: string, confidence: number} {
-  // Fallback to return a placeholder result when in development
-  const emotions = ["happy", "sad", "angry", "surprised", "neutral", "fearful"];
-  const randomEmotion = emotions[Math.floor(Math.random() * emotions.length)];
-  const confidence = Math.random() * 0.5 + 0.5; // Random between 0.5 and 1
-  
-  console.log("Using fallback speech emotion:", { emotion: randomEmotion, confidence });
-  return { emotion: randomEmotion, confidence };
+// Placeholder results are only handed out in demo mode, and are always
+// tagged as fallbacks so they are never shown as real predictions.
+function getFallbackEmotion(
+  modality: 'facial' | 'speech',
+  reason: string,
+  seed: number,
+  options: PredictionOptions
+): EmotionPrediction {
+  if (!options.demoMode) {
+    throw new ModelUnavailableError(reason);
+  }
+
+  const { emotion, confidence, distribution } = demoEmotion(seed);
+  console.log(`Using demo ${modality} emotion:`, { emotion, confidence, reason });
+  return { emotion, confidence, distribution, source: 'fallback', fallbackReason: reason };
 }
 
-// Make sure the models are loaded when the app starts
-loadModels().then((status) => {
-  console.log("Model loading complete with status:", status);
-}).catch(error => {
-  console.error("Error during model loading:", error);
-});
+function describeError(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
@@ -0,0 +1,109 @@
+import { FACIAL_EMOTION_CLASSES } from './emotionLabels';
+import { ImagePreprocessingConfig } from './imagePreprocessing';
+
+// Static description of each bundled model: where it lives, the input it
+// expects and how inputs must be prepared.
+export interface ModelMetadata {
+  id: string;
+  name: string;
+  version: string;
+  // Keras 3 architecture JSON (or the model file itself for non-Keras models)
+  url: string;
+  // TF.js weights manifest written by scripts/convert-keras-weights.mjs
+  weightsManifestUrl?: string;
+  // LabelEncoder pickle holding the output class order
+  labelsUrl?: string;
+  // Input shape including the batch dimension (null = any)
+  inputShape: (number | null)[];
+  // Output shape of the first output, checked when a replacement is uploaded
+  outputShape?: (number | null)[];
+  preprocessing?: ImagePreprocessingConfig;
+}
+
+export const FACIAL_EMOTION_MODEL: ModelMetadata = {
+  id: 'facial-emotion',
+  name: 'Facial Emotion Model',
+  version: 'bundled',
+  url: '/models/facial_emotion/model_facial_architecture.json',
+  weightsManifestUrl: '/models/facial_emotion/facial_weights_manifest.json',
+  inputShape: [null, 96, 96, 1],
+  outputShape: [null, FACIAL_EMOTION_CLASSES.length],
+  preprocessing: {
+    width: 96,
+    height: 96,
+    channels: 1,
+    resize: 'area',
+    normalization: { mode: 'zeroToOne' },
+  },
+};
+
+export const FACIAL_KEYPOINT_MODEL: ModelMetadata = {
+  id: 'facial-keypoints',
+  name: 'Facial Keypoint Model',
+  version: 'bundled',
+  url: '/models/keyfacial/model_keyfacial_architecture.json',
+  weightsManifestUrl: '/models/keyfacial/best_model_weights_manifest.json',
+  inputShape: [null, 96, 96, 1],
+  // One (x, y) pair per FACIAL_KEYPOINT_NAMES entry
+  outputShape: [null, 30],
+  preprocessing: {
+    width: 96,
+    height: 96,
+    channels: 1,
+    resize: 'area',
+    normalization: { mode: 'zeroToOne' },
+  },
+};
+
+// Output order of the keypoint model: 15 (x, y) pairs in input pixel space
+export const FACIAL_KEYPOINT_NAMES = [
+  'left_eye_center',
+  'right_eye_center',
+  'left_eye_inner_corner',
+  'left_eye_outer_corner',
+  'right_eye_inner_corner',
+  'right_eye_outer_corner',
+  'left_eyebrow_inner_end',
+  'left_eyebrow_outer_end',
+  'right_eyebrow_inner_end',
+  'right_eyebrow_outer_end',
+  'nose_tip',
+  'mouth_left_corner',
+  'mouth_right_corner',
+  'mouth_center_top_lip',
+  'mouth_center_bottom_lip',
+] as const;
+
+export const SPEECH_EMOTION_MLP_MODEL: ModelMetadata = {
+  id: 'speech-emotion-mlp',
+  name: 'Speech Emotion MLP',
+  version: 'bundled',
+  url: '/models/speech_emotion/model_mlp_architecture.json',
+  weightsManifestUrl: '/models/speech_emotion/mlp_model_weights_manifest.json',
+  inputShape: [null, 7],
+  // One probability per label encoder class
+  outputShape: [null, null],
+};
+
+export const SPEECH_EMOTION_XGB_MODEL: ModelMetadata = {
+  id: 'speech-emotion-xgb',
+  name: 'Speech Emotion XGBoost',
+  version: 'bundled',
+  url: '/models/speech_emotion/xgb_model.json',
+  inputShape: [null, 7],
+};
+
+// Feature scaler and label encoder shared by both speech models
+export const SPEECH_PREPROCESSING: ModelMetadata = {
+  id: 'speech-preprocessing',
+  name: 'Speech Feature Scaler',
+  version: 'bundled',
+  url: '/models/speech_emotion/stdscaler.pkl',
+  labelsUrl: '/models/speech_emotion/mood_encoder.pkl',
+  inputShape: [null, 7],
+};
+
+export function inputShapeMatches(expected: (number | null)[], actual: (number | null)[]): boolean {
+  return expected.length === actual.length &&
+    expected.every((dim, i) => dim === null || actual[i] === null || dim === actual[i]);
+}
@@ -0,0 +1,315 @@
+import * as tf from '@tensorflow/tfjs';
+import { AUDIO_FEATURE_NAMES } from './audioFeatures';
+import { createFacialEmotionSchema, createSpeechEmotionSchema, LabelSchema } from './emotionLabels';
+import { loadPickle, readLabelEncoderClasses, readStandardScaler, StandardScalerParams } from './joblibPickle';
+import { loadKeras3Model } from './keras3Adapter';
+import {
+  FACIAL_EMOTION_MODEL,
+  FACIAL_KEYPOINT_MODEL,
+  ModelMetadata,
+  SPEECH_EMOTION_MLP_MODEL,
+  SPEECH_EMOTION_XGB_MODEL,
+  SPEECH_PREPROCESSING,
+} from './modelMetadata';
+import { loadXGBoostModel, predictXGBoostProbabilities, XGBoostModel } from './xgboost';
+
+export interface SpeechPreprocessing {
+  scaler: StandardScalerParams;
+  labelSchema: LabelSchema;
+}
+
+// The loaded object behind each registry id
+export interface ModelTypes {
+  'facial-emotion': tf.LayersModel;
+  'facial-keypoints': tf.LayersModel;
+  'speech-emotion-mlp': tf.LayersModel;
+  'speech-emotion-xgb': XGBoostModel;
+  'speech-preprocessing': SpeechPreprocessing;
+}
+
+export type ModelId = keyof ModelTypes;
+
+export type ModelStatus = 'idle' | 'loading' | 'ready' | 'error';
+
+// Shipped with the app, or supplied by the user on the models page
+export type ModelOrigin = 'bundled' | 'uploaded';
+
+export interface ModelInputSpec {
+  shape: (number | null)[];
+  preprocessing?: ModelMetadata['preprocessing'];
+}
+
+// Read-only view of a registry entry, safe to hand to React
+export interface ModelEntry {
+  id: ModelId;
+  name: string;
+  version: string;
+  origin: ModelOrigin;
+  inputSpec: ModelInputSpec;
+  labelSchema: LabelSchema | null;
+  status: ModelStatus;
+  error: string | null;
+  // How long the warm-up pass after loading took, in milliseconds
+  warmUpMs: number | null;
+}
+
+interface LoadResult<K extends ModelId> {
+  model: ModelTypes[K];
+  labelSchema?: LabelSchema | null;
+}
+
+export interface ModelDefinition<K extends ModelId> {
+  metadata: ModelMetadata;
+  // Defaults to 'bundled'
+  origin?: ModelOrigin;
+  labelSchema?: LabelSchema | null;
+  load: (registry: ModelRegistry) => Promise<LoadResult<K>>;
+  // Run once after loading so the first real prediction does not pay for
+  // kernel compilation and weight upload
+  warmUp?: (model: ModelTypes[K]) => Promise<void> | void;
+  dispose?: (model: ModelTypes[K]) => void;
+}
+
+interface RegistryEntry<K extends ModelId> {
+  definition: ModelDefinition<K>;
+  view: ModelEntry;
+  model: ModelTypes[K] | null;
+  promise: Promise<ModelTypes[K]> | null;
+  // Bumped on dispose so a load that finishes afterwards is discarded
+  generation: number;
+}
+
+type Listener = () => void;
+
+export class ModelRegistry {
+  private entries = new Map<ModelId, RegistryEntry<ModelId>>();
+  private listeners = new Set<Listener>();
+  private snapshot: ModelEntry[] = [];
+
+  register<K extends ModelId>(id: K, definition: ModelDefinition<K>): void {
+    const previous = this.entries.get(id);
+    if (previous) this.dispose(id);
+
+    const { metadata } = definition;
+    this.entries.set(id, {
+      definition,
+      view: {
+        id,
+        name: metadata.name,
+        version: metadata.version,
+        origin: definition.origin ?? 'bundled',
+        inputSpec: { shape: metadata.inputShape, preprocessing: metadata.preprocessing },
+        labelSchema: definition.labelSchema ?? null,
+        status: 'idle',
+        error: null,
+        warmUpMs: null,
+      },
+      model: null,
+      promise: null,
+      generation: (previous?.generation ?? 0) + 1,
+    } as RegistryEntry<ModelId>);
+    this.emit();
+  }
+
+  get(id: ModelId): ModelEntry {
+    return this.entry(id).view;
+  }
+
+  // The loaded model, or null if it is not ready (does not trigger a load)
+  getModel<K extends ModelId>(id: K): ModelTypes[K] | null {
+    return (this.entry(id) as RegistryEntry<K>).model;
+  }
+
+  // Loads a model on first use; concurrent callers share the same promise.
+  // A failed load stays failed until the entry is disposed or re-registered.
+  load<K extends ModelId>(id: K): Promise<ModelTypes[K]> {
+    const entry = this.entry(id) as RegistryEntry<K>;
+    if (entry.model) return Promise.resolve(entry.model);
+    if (entry.promise) return entry.promise;
+
+    const generation = entry.generation;
+    this.update(id, { status: 'loading', error: null });
+
+    entry.promise = entry.definition.load(this).then(
+      async (result) => {
+        const warmUpMs = await this.warmUp(entry, result.model);
+        if (entry.generation !== generation) {
+          entry.definition.dispose?.(result.model);
+          throw new Error(`Model ${id} was disposed while loading`);
+        }
+        entry.model = result.model;
+        entry.promise = null;
+        this.update(id, {
+          status: 'ready',
+          labelSchema: result.labelSchema !== undefined ? result.labelSchema : entry.view.labelSchema,
+          warmUpMs,
+        });
+        return result.model;
+      },
+      (error) => {
+        if (entry.generation === generation) {
+          this.update(id, { status: 'error', error: error instanceof Error ? error.message : String(error) });
+        }
+        throw error;
+      }
+    );
+    return entry.promise;
+  }
+
+  // Like load(), but resolves to null instead of rejecting
+  async tryLoad<K extends ModelId>(id: K): Promise<ModelTypes[K] | null> {
+    try {
+      return await this.load(id);
+    } catch (error) {
+      console.log(`Model ${id} is unavailable:`, error);
+      return null;
+    }
+  }
+
+  async loadAll(): Promise<ModelEntry[]> {
+    await Promise.allSettled([...this.entries.keys()].map((id) => this.load(id)));
+    return this.getSnapshot();
+  }
+
+  // Releases a model (or all models); it will be loaded again on next use
+  dispose(id?: ModelId): void {
+    const ids = id ? [id] : [...this.entries.keys()];
+
+    for (const current of ids) {
+      const entry = this.entry(current);
+      entry.generation++;
+      if (entry.model) entry.definition.dispose?.(entry.model);
+      entry.model = null;
+      entry.promise = null;
+      this.update(current, { status: 'idle', error: null, warmUpMs: null });
+    }
+  }
+
+  subscribe = (listener: Listener): (() => void) => {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  };
+
+  // Stable between changes, for useSyncExternalStore
+  getSnapshot = (): ModelEntry[] => this.snapshot;
+
+  // A failed warm-up is logged but does not fail the load
+  private async warmUp<K extends ModelId>(entry: RegistryEntry<K>, model: ModelTypes[K]): Promise<number | null> {
+    if (!entry.definition.warmUp) return null;
+    const started = performance.now();
+    try {
+      await entry.definition.warmUp(model);
+      return performance.now() - started;
+    } catch (error) {
+      console.warn(`Warm-up of ${entry.view.id} failed:`, error);
+      return null;
+    }
+  }
+
+  private entry(id: ModelId): RegistryEntry<ModelId> {
+    const entry = this.entries.get(id);
+    if (!entry) throw new Error(`Unknown model: ${id}`);
+    return entry;
+  }
+
+  private update(id: ModelId, changes: Partial<ModelEntry>): void {
+    const entry = this.entry(id);
+    entry.view = { ...entry.view, ...changes };
+    this.emit();
+  }
+
+  private emit(): void {
+    this.snapshot = [...this.entries.values()].map((entry) => entry.view);
+    this.listeners.forEach((listener) => listener());
+  }
+}
+
+export const disposeLayersModel = (model: tf.LayersModel) => model.dispose();
+
+// One prediction on an all-zero batch of one
+export const warmUpLayersModel = async (model: tf.LayersModel) => {
+  const shape = model.inputs[0].shape.slice(1).map((dim) => dim ?? 1);
+  const input = tf.zeros([1, ...shape]);
+  const output = model.predict(input) as tf.Tensor;
+  try {
+    await output.data();
+  } finally {
+    input.dispose();
+    output.dispose();
+  }
+};
+
+export const warmUpXGBoostModel = (model: XGBoostModel) => {
+  predictXGBoostProbabilities(model, AUDIO_FEATURE_NAMES.map(() => 0));
+};
+
+// Registers the models shipped in public/models, or only the given ones (to
+// restore a bundled model after an upload replaced it)
+export function registerBundledModels(registry: ModelRegistry, ids?: ModelId[]): void {
+  const include = (id: ModelId) => !ids || ids.includes(id);
+
+  if (include('facial-emotion')) registry.register('facial-emotion', {
+    metadata: FACIAL_EMOTION_MODEL,
+    labelSchema: createFacialEmotionSchema(),
+    load: async () => ({
+      model: await loadKeras3Model(FACIAL_EMOTION_MODEL.url, FACIAL_EMOTION_MODEL.weightsManifestUrl),
+    }),
+    warmUp: warmUpLayersModel,
+    dispose: disposeLayersModel,
+  });
+
+  if (include('facial-keypoints')) registry.register('facial-keypoints', {
+    metadata: FACIAL_KEYPOINT_MODEL,
+    load: async () => ({
+      model: await loadKeras3Model(FACIAL_KEYPOINT_MODEL.url, FACIAL_KEYPOINT_MODEL.weightsManifestUrl),
+    }),
+    warmUp: warmUpLayersModel,
+    dispose: disposeLayersModel,
+  });
+
+  if (include('speech-preprocessing')) registry.register('speech-preprocessing', {
+    metadata: SPEECH_PREPROCESSING,
+    load: async () => {
+      const [scalerPickle, encoderPickle] = await Promise.all([
+        loadPickle(SPEECH_PREPROCESSING.url),
+        loadPickle(SPEECH_PREPROCESSING.labelsUrl),
+      ]);
+      const scaler = readStandardScaler(scalerPickle);
+      const labelSchema = createSpeechEmotionSchema(readLabelEncoderClasses(encoderPickle));
+
+      if (scaler.featureNames && scaler.featureNames.join() !== AUDIO_FEATURE_NAMES.join()) {
+        console.warn('Speech scaler feature order differs from extracted features:', scaler.featureNames);
+      }
+      return { model: { scaler, labelSchema }, labelSchema };
+    },
+  });
+
+  // Both speech models output classes in the label encoder's order
+  if (include('speech-emotion-mlp')) registry.register('speech-emotion-mlp', {
+    metadata: SPEECH_EMOTION_MLP_MODEL,
+    load: async (registry) => {
+      const [model, preprocessing] = await Promise.all([
+        loadKeras3Model(SPEECH_EMOTION_MLP_MODEL.url, SPEECH_EMOTION_MLP_MODEL.weightsManifestUrl),
+        registry.load('speech-preprocessing'),
+      ]);
+      return { model, labelSchema: preprocessing.labelSchema };
+    },
+    warmUp: warmUpLayersModel,
+    dispose: disposeLayersModel,
+  });
+
+  if (include('speech-emotion-xgb')) registry.register('speech-emotion-xgb', {
+    metadata: SPEECH_EMOTION_XGB_MODEL,
+    load: async (registry) => {
+      const [model, preprocessing] = await Promise.all([
+        loadXGBoostModel(SPEECH_EMOTION_XGB_MODEL.url),
+        registry.load('speech-preprocessing'),
+      ]);
+      return { model, labelSchema: preprocessing.labelSchema };
+    },
+    warmUp: warmUpXGBoostModel,
+  });
+}
+
+export const modelRegistry = new ModelRegistry();
+registerBundledModels(modelRegistry);
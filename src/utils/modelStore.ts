@@ -0,0 +1,190 @@
+import * as tf from '@tensorflow/tfjs';
+import type { LabelSchema } from './emotionLabels';
+import { createDatabase, promisify, transact } from './indexedDb';
+import type { ModelId, ModelTypes } from './modelRegistry';
+
+// Keeps uploaded models in IndexedDB so they survive a reload. Layers models
+// go through TF.js' own indexeddb:// handler; everything else (XGBoost trees,
+// scaler and label encoder) is stored as a structured clone next to the
+// version metadata. Runs inside the inference worker.
+
+export interface StoredModelVersion {
+  id: string;
+  modelId: ModelId;
+  name: string;
+  // Counts up per model, starting at 1; never reused, even after a delete
+  version: number;
+  uploadedAt: string;
+  // SHA-256 of the uploaded files, hex; null where Web Crypto is unavailable
+  hash: string | null;
+  labelSchema: LabelSchema | null;
+  // Paths of the uploaded files the version was built from
+  files: string[];
+}
+
+export interface StoredModels {
+  versions: StoredModelVersion[];
+  // Version each model starts with, in place of the bundled one
+  pinned: Partial<Record<ModelId, string>>;
+}
+
+export interface NewModelVersion {
+  name: string;
+  labelSchema: LabelSchema | null;
+  files: string[];
+  contents: Blob[];
+}
+
+// Layers weights live in TF.js' database; other models are kept here
+type StoredPayload = { id: string; kind: 'layers' } | { id: string; kind: 'data'; model: unknown };
+
+interface StoredPin {
+  modelId: ModelId;
+  versionId: string;
+}
+
+// Highest version number ever given out per model. Version ids double as
+// indexeddb:// keys and are recorded in saved sessions, so they must not
+// come back after the newest version is deleted.
+interface VersionCounter {
+  modelId: ModelId;
+  last: number;
+}
+
+const DB_NAME = 'emotion-scribe-models';
+const DB_VERSION = 2;
+const VERSIONS = 'versions';
+const PAYLOADS = 'payloads';
+const PINS = 'pins';
+const COUNTERS = 'counters';
+
+const layersModelUrl = (versionId: string) => `indexeddb://emotion-scribe/${versionId}`;
+
+const openDatabase = createDatabase(DB_NAME, DB_VERSION, (db, oldVersion, transaction) => {
+  if (oldVersion < 1) {
+    db.createObjectStore(VERSIONS, { keyPath: 'id' }).createIndex('modelId', 'modelId');
+    db.createObjectStore(PAYLOADS, { keyPath: 'id' });
+    db.createObjectStore(PINS, { keyPath: 'modelId' });
+  }
+  if (oldVersion < 2) {
+    // Start from the highest version still stored; earlier deletes are unknown
+    const counters = db.createObjectStore(COUNTERS, { keyPath: 'modelId' });
+    transaction.objectStore(VERSIONS).openCursor().onsuccess = (event) => {
+      const cursor = (event.target as IDBRequest<IDBCursorWithValue | null>).result;
+      if (!cursor) return;
+      const { modelId, version } = cursor.value as StoredModelVersion;
+      counters.get(modelId).onsuccess = (lookup) => {
+        const counter = (lookup.target as IDBRequest<VersionCounter | undefined>).result;
+        if (!counter || counter.last < version) counters.put({ modelId, last: version } satisfies VersionCounter);
+      };
+      cursor.continue();
+    };
+  }
+});
+
+async function hashContents(contents: Blob[]): Promise<string | null> {
+  if (typeof crypto === 'undefined' || !crypto.subtle) return null;
+  const digest = await crypto.subtle.digest('SHA-256', await new Blob(contents).arrayBuffer());
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+export async function listStoredModels(): Promise<StoredModels> {
+  return transact(openDatabase, [VERSIONS, PINS], 'readonly', async (transaction) => {
+    const [versions, pins] = await Promise.all([
+      promisify(transaction.objectStore(VERSIONS).getAll() as IDBRequest<StoredModelVersion[]>),
+      promisify(transaction.objectStore(PINS).getAll() as IDBRequest<StoredPin[]>),
+    ]);
+    versions.sort((a, b) => a.modelId.localeCompare(b.modelId) || b.version - a.version);
+    return { versions, pinned: Object.fromEntries(pins.map((pin) => [pin.modelId, pin.versionId])) };
+  });
+}
+
+export async function getStoredVersion(versionId: string): Promise<StoredModelVersion> {
+  const version = await transact(openDatabase, [VERSIONS], 'readonly', (transaction) =>
+    promisify(transaction.objectStore(VERSIONS).get(versionId) as IDBRequest<StoredModelVersion | undefined>)
+  );
+  if (!version) throw new Error(`Stored model version ${versionId} does not exist`);
+  return version;
+}
+
+// Stores the model as the next version of its slot. Does not pin it.
+export async function saveModelVersion<K extends ModelId>(
+  modelId: K,
+  model: ModelTypes[K],
+  details: NewModelVersion
+): Promise<StoredModelVersion> {
+  // Reserved up front, so a failed save leaves a gap rather than a reusable id
+  const number = await transact(openDatabase, [COUNTERS], 'readwrite', async (transaction) => {
+    const counters = transaction.objectStore(COUNTERS);
+    const counter = await promisify(counters.get(modelId) as IDBRequest<VersionCounter | undefined>);
+    const next = (counter?.last ?? 0) + 1;
+    counters.put({ modelId, last: next } satisfies VersionCounter);
+    return next;
+  });
+  const version: StoredModelVersion = {
+    id: `${modelId}@${number}`,
+    modelId,
+    name: details.name,
+    version: number,
+    uploadedAt: new Date().toISOString(),
+    hash: await hashContents(details.contents),
+    labelSchema: details.labelSchema,
+    files: details.files,
+  };
+
+  const isLayers = model instanceof tf.LayersModel;
+  if (isLayers) {
+    await model.save(layersModelUrl(version.id));
+  }
+  const payload: StoredPayload = isLayers ? { id: version.id, kind: 'layers' } : { id: version.id, kind: 'data', model };
+  await transact(openDatabase, [VERSIONS, PAYLOADS], 'readwrite', (transaction) => {
+    transaction.objectStore(PAYLOADS).put(payload);
+    transaction.objectStore(VERSIONS).put(version);
+  });
+  return version;
+}
+
+export async function loadModelVersion<K extends ModelId>(version: StoredModelVersion): Promise<ModelTypes[K]> {
+  const payload = await transact(openDatabase, [PAYLOADS], 'readonly', (transaction) =>
+    promisify(transaction.objectStore(PAYLOADS).get(version.id) as IDBRequest<StoredPayload | undefined>)
+  );
+  if (!payload) throw new Error(`The stored data of ${version.name} v${version.version} is missing`);
+  if (payload.kind === 'layers') {
+    return (await tf.loadLayersModel(layersModelUrl(version.id))) as ModelTypes[K];
+  }
+  return payload.model as ModelTypes[K];
+}
+
+// Null goes back to the bundled model
+export async function pinModelVersion(modelId: ModelId, versionId: string | null): Promise<void> {
+  await transact(openDatabase, [PINS], 'readwrite', (transaction) => {
+    const pins = transaction.objectStore(PINS);
+    if (versionId) {
+      pins.put({ modelId, versionId } satisfies StoredPin);
+    } else {
+      pins.delete(modelId);
+    }
+  });
+}
+
+// Removes the version and its weights, unpinning it if it was pinned
+export async function deleteModelVersion(
+  versionId: string
+): Promise<{ version: StoredModelVersion; wasPinned: boolean }> {
+  const version = await getStoredVersion(versionId);
+  const wasPinned = await transact(openDatabase, [VERSIONS, PAYLOADS, PINS], 'readwrite', async (transaction) => {
+    const pins = transaction.objectStore(PINS);
+    const pin = await promisify(pins.get(version.modelId) as IDBRequest<StoredPin | undefined>);
+    if (pin?.versionId === versionId) pins.delete(version.modelId);
+    transaction.objectStore(VERSIONS).delete(versionId);
+    transaction.objectStore(PAYLOADS).delete(versionId);
+    return pin?.versionId === versionId;
+  });
+
+  try {
+    await tf.io.removeModel(layersModelUrl(versionId));
+  } catch {
+    // Not a layers model, or its weights are already gone
+  }
+  return { version, wasPinned };
+}
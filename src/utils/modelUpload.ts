@@ -0,0 +1,563 @@
+import * as tf from '@tensorflow/tfjs';
+import { AUDIO_FEATURE_NAMES } from './audioFeatures';
+import { createFacialEmotionSchema, createSpeechEmotionSchema } from './emotionLabels';
+import { parsePickle, PickleInstance, readLabelEncoderClasses, readStandardScaler, StandardScalerParams } from './joblibPickle';
+import { convertKeras3Topology } from './keras3Adapter';
+import {
+  FACIAL_EMOTION_MODEL,
+  FACIAL_KEYPOINT_MODEL,
+  inputShapeMatches,
+  ModelMetadata,
+  SPEECH_EMOTION_MLP_MODEL,
+  SPEECH_EMOTION_XGB_MODEL,
+  SPEECH_PREPROCESSING,
+} from './modelMetadata';
+import {
+  disposeLayersModel,
+  ModelId,
+  ModelRegistry,
+  ModelTypes,
+  registerBundledModels,
+  SpeechPreprocessing,
+  warmUpLayersModel,
+  warmUpXGBoostModel,
+} from './modelRegistry';
+import {
+  deleteModelVersion,
+  getStoredVersion,
+  listStoredModels,
+  loadModelVersion,
+  pinModelVersion,
+  saveModelVersion,
+  StoredModelVersion,
+} from './modelStore';
+import { parseXGBoostModel, XGBoostModel } from './xgboost';
+import type { UploadedFile } from './fileDrop';
+
+export type { UploadedFile };
+
+// Installs user-supplied model files into the registry, replacing the bundled
+// models, and keeps them as versions in modelStore. Runs inside the inference
+// worker, which owns the registry.
+
+export type FileUploadStatus = 'reading' | 'read' | 'installed' | 'ignored' | 'error';
+
+export interface FileUploadProgress {
+  path: string;
+  loaded: number;
+  total: number;
+  status: FileUploadStatus;
+  // The registry slot the file ended up in
+  modelId: ModelId | null;
+  error: string | null;
+}
+
+export interface ModelUploadReport {
+  installed: ModelId[];
+  files: FileUploadProgress[];
+}
+
+type LayersModelId = 'facial-emotion' | 'facial-keypoints' | 'speech-emotion-mlp';
+
+interface LayersModelSlot {
+  id: LayersModelId;
+  metadata: ModelMetadata;
+  // Folder name in the expected upload layout, used to break ties
+  folder: string;
+}
+
+// Layers models an upload can replace, told apart by input and output shape
+const LAYERS_MODEL_SLOTS: LayersModelSlot[] = [
+  { id: 'facial-emotion', metadata: FACIAL_EMOTION_MODEL, folder: 'facial_emotion' },
+  { id: 'facial-keypoints', metadata: FACIAL_KEYPOINT_MODEL, folder: 'keyfacial' },
+  { id: 'speech-emotion-mlp', metadata: SPEECH_EMOTION_MLP_MODEL, folder: 'speech_emotion' },
+];
+
+const H5_MESSAGE =
+  'Keras .h5 files cannot be read in the browser. Convert the weights with ' +
+  '`node scripts/convert-keras-weights.mjs <architecture.json> <weights.h5>` and upload the resulting manifest and .bin files';
+
+type ParsedFile =
+  | { kind: 'tfjs-model'; upload: UploadedFile; json: tf.io.ModelJSON }
+  | { kind: 'keras3-architecture'; upload: UploadedFile; json: Parameters<typeof convertKeras3Topology>[0] }
+  | { kind: 'weights-manifest'; upload: UploadedFile; manifest: tf.io.WeightsManifestConfig }
+  | { kind: 'weights-shard'; upload: UploadedFile; data: ArrayBuffer }
+  | { kind: 'xgboost'; upload: UploadedFile; model: XGBoostModel }
+  | { kind: 'scaler'; upload: UploadedFile; scaler: StandardScalerParams }
+  | { kind: 'label-encoder'; upload: UploadedFile; classes: string[] };
+
+// A layers model ready for tf.io.browserFiles: model.json plus its shards
+interface LayersBundle {
+  paths: string[];
+  files: File[];
+}
+
+// A model that passed validation, with a way to read it again for this session
+interface ValidatedModel {
+  id: ModelId;
+  paths: string[];
+  model: ModelTypes[ModelId];
+  reload: () => Promise<ModelTypes[ModelId]>;
+}
+
+const extension = (path: string) => path.slice(path.lastIndexOf('.') + 1).toLowerCase();
+const basename = (path: string) => path.slice(path.lastIndexOf('/') + 1);
+const dirname = (path: string) => path.slice(0, Math.max(0, path.lastIndexOf('/')));
+const formatShape = (shape: (number | null)[]) => `[${shape.map((dim) => dim ?? '?').join(', ')}]`;
+const describeError = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
+function readFile(file: File, onProgress: (loaded: number) => void): Promise<ArrayBuffer> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onprogress = (event) => onProgress(event.loaded);
+    reader.onload = () => resolve(reader.result as ArrayBuffer);
+    reader.onerror = () => reject(reader.error ?? new Error(`Could not read ${file.name}`));
+    reader.readAsArrayBuffer(file);
+  });
+}
+
+function classifyJson(upload: UploadedFile, json: unknown): ParsedFile {
+  if (Array.isArray(json)) {
+    if (json.every((group) => Array.isArray(group?.paths) && Array.isArray(group?.weights))) {
+      return { kind: 'weights-manifest', upload, manifest: json };
+    }
+  } else if (json && typeof json === 'object') {
+    const object = json as Record<string, unknown>;
+    if ('modelTopology' in object && 'weightsManifest' in object) {
+      return { kind: 'tfjs-model', upload, json: object as unknown as tf.io.ModelJSON };
+    }
+    if (typeof object.class_name === 'string' && object.config && typeof object.config === 'object') {
+      return { kind: 'keras3-architecture', upload, json: object as unknown as Parameters<typeof convertKeras3Topology>[0] };
+    }
+    if ('learner' in object) {
+      return { kind: 'xgboost', upload, model: parseXGBoostModel(object as unknown as Parameters<typeof parseXGBoostModel>[0]) };
+    }
+  }
+  throw new Error('Not a TF.js model.json, Keras architecture, weights manifest or XGBoost model');
+}
+
+function classifyPickle(upload: UploadedFile, value: unknown): ParsedFile {
+  const className = (value as PickleInstance | null)?.className ?? '';
+  if (className.endsWith('.StandardScaler')) {
+    return { kind: 'scaler', upload, scaler: readStandardScaler(value) };
+  }
+  if (className.endsWith('.LabelEncoder')) {
+    return { kind: 'label-encoder', upload, classes: readLabelEncoderClasses(value) };
+  }
+  throw new Error(`Expected a StandardScaler or LabelEncoder pickle, found ${className || 'something else'}`);
+}
+
+async function parseUpload(upload: UploadedFile, onProgress: (loaded: number) => void): Promise<ParsedFile> {
+  const type = extension(upload.path);
+  if (type === 'h5') throw new Error(H5_MESSAGE);
+  if (!['json', 'bin', 'pkl'].includes(type)) throw new Error(`Unsupported file type .${type}`);
+
+  const data = await readFile(upload.file, onProgress);
+  switch (type) {
+    case 'bin':
+      return { kind: 'weights-shard', upload, data };
+    case 'pkl':
+      return classifyPickle(upload, parsePickle(new Uint8Array(data)));
+    default: {
+      let json: unknown;
+      try {
+        json = JSON.parse(new TextDecoder().decode(data));
+      } catch (error) {
+        throw new Error(`Invalid JSON: ${describeError(error)}`);
+      }
+      return classifyJson(upload, json);
+    }
+  }
+}
+
+// Gathers the shards a manifest lists; throws naming the first missing one
+function collectShards(
+  manifest: tf.io.WeightsManifestConfig,
+  shards: Map<string, Extract<ParsedFile, { kind: 'weights-shard' }>>,
+  owner: string
+): { paths: string[]; files: File[] } {
+  const paths: string[] = [];
+  const files: File[] = [];
+  for (const path of manifest.flatMap((group) => group.paths)) {
+    const shard = shards.get(basename(path));
+    if (!shard) throw new Error(`Weight file ${basename(path)} listed in ${basename(owner)} was not uploaded`);
+    paths.push(shard.upload.path);
+    // browserFiles matches shards to manifest paths by file name
+    files.push(new File([shard.data], basename(path)));
+  }
+  return { paths, files };
+}
+
+function modelJsonFile(json: tf.io.ModelJSON): File {
+  return new File([JSON.stringify(json)], 'model.json', { type: 'application/json' });
+}
+
+// Picks the slot whose expected input and output shapes fit the model
+function matchSlot(model: tf.LayersModel, paths: string[]): LayersModelSlot {
+  const inputShape = model.inputs[0].shape;
+  const outputShape = model.outputs[0].shape;
+  const matches = LAYERS_MODEL_SLOTS.filter(
+    (slot) =>
+      inputShapeMatches(slot.metadata.inputShape, inputShape) &&
+      (!slot.metadata.outputShape || inputShapeMatches(slot.metadata.outputShape, outputShape))
+  );
+
+  if (matches.length === 1) return matches[0];
+  const byFolder = matches.find((slot) => paths.some((path) => path.split('/').includes(slot.folder)));
+  if (byFolder) return byFolder;
+
+  if (matches.length > 1) {
+    throw new Error(
+      `Input ${formatShape(inputShape)} fits ${matches.map((slot) => slot.metadata.name).join(' and ')}; ` +
+        `put the files in a ${matches.map((slot) => slot.folder).join(' or ')} folder to choose`
+    );
+  }
+  const expected = LAYERS_MODEL_SLOTS.map(
+    (slot) =>
+      `${slot.metadata.name} ${formatShape(slot.metadata.inputShape)} → ${formatShape(slot.metadata.outputShape ?? [])}`
+  );
+  throw new Error(
+    `Input ${formatShape(inputShape)} → output ${formatShape(outputShape)} matches no model. Expected: ${expected.join('; ')}`
+  );
+}
+
+const MODEL_METADATA: Record<ModelId, ModelMetadata> = {
+  'facial-emotion': FACIAL_EMOTION_MODEL,
+  'facial-keypoints': FACIAL_KEYPOINT_MODEL,
+  'speech-preprocessing': SPEECH_PREPROCESSING,
+  'speech-emotion-mlp': SPEECH_EMOTION_MLP_MODEL,
+  'speech-emotion-xgb': SPEECH_EMOTION_XGB_MODEL,
+};
+
+const uploadedMetadata = (metadata: ModelMetadata, path: string): ModelMetadata => ({
+  ...metadata,
+  version: `uploaded ${basename(path)}`,
+  url: path,
+  weightsManifestUrl: undefined,
+});
+
+const storedMetadata = (version: StoredModelVersion): ModelMetadata => ({
+  ...MODEL_METADATA[version.modelId],
+  version: `v${version.version}, uploaded ${version.uploadedAt.slice(0, 10)}`,
+  url: version.files[0] ?? version.id,
+  weightsManifestUrl: undefined,
+});
+
+// The first load hands out the model validated during the upload; later
+// loads (after a dispose or backend switch) read it again
+function reloadable<T>(initial: T, load: () => Promise<T>): () => Promise<T> {
+  let preloaded: T | null = initial;
+  return async () => {
+    const model = preloaded ?? (await load());
+    preloaded = null;
+    return model;
+  };
+}
+
+// Registers a user-supplied model in place of the bundled one
+function registerUploadedModel(
+  registry: ModelRegistry,
+  id: ModelId,
+  metadata: ModelMetadata,
+  loadModel: () => Promise<unknown>
+): void {
+  const common = { metadata, origin: 'uploaded' as const };
+
+  if (id === 'speech-preprocessing') {
+    registry.register(id, {
+      ...common,
+      load: async () => {
+        const model = (await loadModel()) as SpeechPreprocessing;
+        return { model, labelSchema: model.labelSchema };
+      },
+    });
+    return;
+  }
+  if (id === 'speech-emotion-xgb') {
+    registry.register(id, {
+      ...common,
+      load: async (registry) => {
+        const [model, preprocessing] = await Promise.all([
+          loadModel() as Promise<XGBoostModel>,
+          registry.load('speech-preprocessing'),
+        ]);
+        return { model, labelSchema: preprocessing.labelSchema };
+      },
+      warmUp: warmUpXGBoostModel,
+    });
+    return;
+  }
+
+  const loadLayersModel = loadModel as () => Promise<tf.LayersModel>;
+  const layers = { ...common, warmUp: warmUpLayersModel, dispose: disposeLayersModel };
+  if (id === 'speech-emotion-mlp') {
+    registry.register(id, {
+      ...layers,
+      load: async (registry) => {
+        const [loaded, preprocessing] = await Promise.all([loadLayersModel(), registry.load('speech-preprocessing')]);
+        return { model: loaded, labelSchema: preprocessing.labelSchema };
+      },
+    });
+  } else {
+    registry.register(id, {
+      ...layers,
+      labelSchema: id === 'facial-emotion' ? createFacialEmotionSchema() : undefined,
+      load: async () => ({ model: await loadLayersModel() }),
+    });
+  }
+}
+
+const registerStoredVersion = (registry: ModelRegistry, version: StoredModelVersion, preloaded?: unknown) => {
+  const load = () => loadModelVersion(version);
+  registerUploadedModel(registry, version.modelId, storedMetadata(version), preloaded ? reloadable(preloaded, load) : load);
+};
+
+// Speech class count the speech models must produce: from the uploaded label
+// encoder, or the one currently loaded
+function speechClassCount(registry: ModelRegistry, preprocessing: SpeechPreprocessing | null): number | null {
+  const schema = preprocessing?.labelSchema ?? registry.getModel('speech-preprocessing')?.labelSchema;
+  return schema ? schema.classes.length : null;
+}
+
+export async function installUploadedModels(
+  registry: ModelRegistry,
+  uploads: UploadedFile[],
+  onProgress: (progress: FileUploadProgress) => void
+): Promise<ModelUploadReport> {
+  const progress = new Map<string, FileUploadProgress>();
+  const update = (path: string, changes: Partial<FileUploadProgress>) => {
+    const next = { ...progress.get(path), ...changes } as FileUploadProgress;
+    progress.set(path, next);
+    onProgress(next);
+  };
+  const fail = (paths: string[], error: unknown) =>
+    paths.forEach((path) => update(path, { status: 'error', error: describeError(error) }));
+
+  uploads.forEach(({ path, file }) =>
+    update(path, { path, loaded: 0, total: file.size, status: 'reading', modelId: null, error: null })
+  );
+
+  // 1. Read and identify every file
+  const parsed: ParsedFile[] = [];
+  for (const upload of uploads) {
+    try {
+      parsed.push(await parseUpload(upload, (loaded) => update(upload.path, { loaded })));
+      update(upload.path, { loaded: upload.file.size, status: 'read' });
+    } catch (error) {
+      fail([upload.path], error);
+    }
+  }
+  const ofKind = <K extends ParsedFile['kind']>(kind: K) =>
+    parsed.filter((file): file is Extract<ParsedFile, { kind: K }> => file.kind === kind);
+
+  const shards = new Map(ofKind('weights-shard').map((shard) => [basename(shard.upload.path), shard]));
+  const manifests = ofKind('weights-manifest');
+
+  // 2. Pair every model description with its weights
+  const bundles: LayersBundle[] = [];
+  for (const file of ofKind('tfjs-model')) {
+    try {
+      const weights = collectShards(file.json.weightsManifest, shards, file.upload.path);
+      bundles.push({ paths: [file.upload.path, ...weights.paths], files: [modelJsonFile(file.json), ...weights.files] });
+    } catch (error) {
+      fail([file.upload.path], error);
+    }
+  }
+  for (const file of ofKind('keras3-architecture')) {
+    const sameFolder = manifests.filter((manifest) => dirname(manifest.upload.path) === dirname(file.upload.path));
+    const manifest = sameFolder.length === 1 ? sameFolder[0] : manifests.length === 1 ? manifests[0] : null;
+    if (!manifest) {
+      fail([file.upload.path], manifests.length === 0
+        ? 'No weights manifest was uploaded for this architecture'
+        : 'Several weights manifests were uploaded; put each next to its architecture in its own folder');
+      continue;
+    }
+    try {
+      const weights = collectShards(manifest.manifest, shards, manifest.upload.path);
+      const json: tf.io.ModelJSON = {
+        modelTopology: convertKeras3Topology(file.json),
+        weightsManifest: manifest.manifest,
+        format: 'layers-model',
+        generatedBy: 'keras-3',
+        convertedBy: 'keras3Adapter',
+      };
+      bundles.push({
+        paths: [file.upload.path, manifest.upload.path, ...weights.paths],
+        files: [modelJsonFile(json), ...weights.files],
+      });
+    } catch (error) {
+      fail([file.upload.path, manifest.upload.path], error);
+    }
+  }
+
+  // 3. Speech preprocessing: scaler and label encoder, either may be combined
+  // with the half that is already loaded
+  let preprocessing: SpeechPreprocessing | null = null;
+  const preprocessingFiles = [...ofKind('scaler'), ...ofKind('label-encoder')];
+  const preprocessingPaths = preprocessingFiles.map((file) => file.upload.path);
+  if (preprocessingFiles.length > 0) {
+    const current = registry.getModel('speech-preprocessing');
+    const [scaler, ...extraScalers] = ofKind('scaler');
+    const [encoder, ...extraEncoders] = ofKind('label-encoder');
+    const scalerParams = scaler?.scaler ?? current?.scaler;
+    const classes = encoder?.classes ?? current?.labelSchema.classes;
+
+    if (extraScalers.length > 0 || extraEncoders.length > 0) {
+      fail(preprocessingPaths, 'Upload at most one StandardScaler and one LabelEncoder');
+    } else if (!scalerParams || !classes) {
+      fail(preprocessingPaths, `Upload the scaler and the label encoder together; the current ${SPEECH_PREPROCESSING.name} is not loaded`);
+    } else if (scalerParams.mean.length !== AUDIO_FEATURE_NAMES.length) {
+      fail(preprocessingPaths, `The scaler expects ${scalerParams.mean.length} features, but ${AUDIO_FEATURE_NAMES.length} are extracted`);
+    } else {
+      preprocessing = { scaler: scalerParams, labelSchema: createSpeechEmotionSchema(classes) };
+    }
+  }
+  const classCount = speechClassCount(registry, preprocessing);
+
+  // 4. Load the layers models and match them to a slot by shape
+  const layersModels = new Map<LayersModelId, { model: tf.LayersModel; bundle: LayersBundle }>();
+  for (const bundle of bundles) {
+    let model: tf.LayersModel | null = null;
+    try {
+      model = await tf.loadLayersModel(tf.io.browserFiles(bundle.files));
+      const slot = matchSlot(model, bundle.paths);
+      if (layersModels.has(slot.id)) {
+        throw new Error(`More than one uploaded model fits ${slot.metadata.name}`);
+      }
+      const outputs = model.outputs[0].shape[1];
+      if (slot.id === 'speech-emotion-mlp' && classCount !== null && outputs !== classCount) {
+        throw new Error(`${slot.metadata.name} outputs ${outputs} classes, but the label encoder has ${classCount}`);
+      }
+      layersModels.set(slot.id, { model, bundle });
+    } catch (error) {
+      model?.dispose();
+      fail(bundle.paths, error);
+    }
+  }
+
+  let xgbModel: Extract<ParsedFile, { kind: 'xgboost' }> | null = null;
+  for (const file of ofKind('xgboost')) {
+    const { numFeatures, numOutputs } = file.model;
+    if (xgbModel) {
+      fail([file.upload.path], `More than one uploaded model fits ${SPEECH_EMOTION_XGB_MODEL.name}`);
+    } else if (numFeatures !== AUDIO_FEATURE_NAMES.length) {
+      fail([file.upload.path], `${SPEECH_EMOTION_XGB_MODEL.name} expects ${AUDIO_FEATURE_NAMES.length} features, this model uses ${numFeatures}`);
+    } else if (classCount !== null && numOutputs !== classCount) {
+      fail([file.upload.path], `${SPEECH_EMOTION_XGB_MODEL.name} outputs ${numOutputs} classes, but the label encoder has ${classCount}`);
+    } else {
+      xgbModel = file;
+    }
+  }
+
+  // 5. Store everything that validated as a new, pinned version and swap it
+  // into the registry. A model that cannot be stored still serves this session.
+  const validated: ValidatedModel[] = [];
+  if (preprocessing) {
+    const model = preprocessing;
+    validated.push({ id: 'speech-preprocessing', paths: preprocessingPaths, model, reload: async () => model });
+  }
+  layersModels.forEach(({ model, bundle }, id) => {
+    validated.push({ id, paths: bundle.paths, model, reload: () => tf.loadLayersModel(tf.io.browserFiles(bundle.files)) });
+  });
+  if (xgbModel) {
+    const { model, upload } = xgbModel;
+    validated.push({ id: 'speech-emotion-xgb', paths: [upload.path], model, reload: async () => model });
+  }
+
+  const uploadedFiles = new Map(uploads.map(({ path, file }) => [path, file]));
+  const speechSchema = (preprocessing ?? registry.getModel('speech-preprocessing'))?.labelSchema ?? null;
+  const installed = new Map<ModelId, string[]>();
+  for (const { id, paths, model, reload } of validated) {
+    const metadata = MODEL_METADATA[id];
+    try {
+      const version = await saveModelVersion(id, model, {
+        name: metadata.name,
+        labelSchema: id === 'facial-emotion' ? createFacialEmotionSchema() : id === 'facial-keypoints' ? null : speechSchema,
+        files: paths,
+        contents: paths.map((path) => uploadedFiles.get(path)),
+      });
+      await pinModelVersion(id, version.id);
+      registerStoredVersion(registry, version, model);
+    } catch (error) {
+      console.warn(`Storing the uploaded ${metadata.name} failed; it is only installed for this session:`, error);
+      paths.forEach((path) => update(path, { error: `Not saved for later visits: ${describeError(error)}` }));
+      registerUploadedModel(registry, id, uploadedMetadata(metadata, paths[0]), reloadable(model, reload));
+    }
+    installed.set(id, paths);
+  }
+  if (preprocessing) {
+    reloadSpeechModels(registry, [...installed.keys()]);
+  }
+
+  await Promise.all([...installed].map(async ([id, paths]) => {
+    try {
+      await registry.load(id);
+      paths.forEach((path) => update(path, { status: 'installed', modelId: id }));
+    } catch (error) {
+      fail(paths, `Validated, but loading it into the app failed: ${describeError(error)}`);
+    }
+  }));
+
+  progress.forEach((file) => {
+    if (file.status === 'read') update(file.path, { status: 'ignored', error: 'Not used by any uploaded model' });
+  });
+  return { installed: [...installed.keys()], files: [...progress.values()] };
+}
+
+// The speech models take their label schema from the preprocessing entry, so
+// reload the ones that were not replaced themselves
+function reloadSpeechModels(registry: ModelRegistry, replaced: ModelId[]): void {
+  (['speech-emotion-mlp', 'speech-emotion-xgb'] as const)
+    .filter((id) => !replaced.includes(id) && registry.get(id).status === 'ready')
+    .forEach((id) => {
+      registry.dispose(id);
+      registry.tryLoad(id);
+    });
+}
+
+// Puts the bundled model back in place of an uploaded one, also for later visits
+export async function restoreBundledModel(registry: ModelRegistry, id: ModelId): Promise<void> {
+  await pinModelVersion(id, null).catch((error) => console.warn(`Unpinning ${id} failed:`, error));
+  registerBundledModels(registry, [id]);
+  if (id === 'speech-preprocessing') {
+    reloadSpeechModels(registry, [id]);
+  }
+  await registry.tryLoad(id);
+}
+
+// Registers the pinned versions in place of the bundled models. Call it
+// before anything loads them.
+export async function restorePinnedModels(registry: ModelRegistry): Promise<void> {
+  const { versions, pinned } = await listStoredModels();
+  versions
+    .filter((version) => pinned[version.modelId] === version.id)
+    .forEach((version) => registerStoredVersion(registry, version));
+}
+
+// Switches to a stored version (or back to an older one) and pins it
+export async function activateModelVersion(registry: ModelRegistry, versionId: string): Promise<void> {
+  const version = await getStoredVersion(versionId);
+  const { modelId } = version;
+  if (modelId === 'speech-emotion-mlp' || modelId === 'speech-emotion-xgb') {
+    const expected = speechClassCount(registry, null);
+    const classes = version.labelSchema?.classes.length ?? null;
+    if (expected !== null && classes !== null && classes !== expected) {
+      throw new Error(`${version.name} v${version.version} outputs ${classes} classes, but the loaded label encoder has ${expected}`);
+    }
+  }
+
+  await pinModelVersion(modelId, version.id);
+  registerStoredVersion(registry, version);
+  if (modelId === 'speech-preprocessing') {
+    reloadSpeechModels(registry, [modelId]);
+  }
+  await registry.tryLoad(modelId);
+}
+
+// Deletes a stored version; if it was in use, the bundled model takes over
+export async function removeModelVersion(registry: ModelRegistry, versionId: string): Promise<void> {
+  const { version, wasPinned } = await deleteModelVersion(versionId);
+  if (wasPinned) {
+    await restoreBundledModel(registry, version.modelId);
+  }
+}
@@ -0,0 +1,258 @@
+import { AUDIO_FEATURE_INFO, AudioFeatureInfo } from './audioFeatures';
+import { EmotionData, overallEmotion } from './emotionAnalysis';
+import { FUSION_STRATEGIES } from './emotionFusion';
+import { CANONICAL_EMOTIONS, EMOTION_CHART_CONFIG, EMOTION_COLORS, Emotion } from './emotionLabels';
+import type { AnalysisSession, NewAnalysisSession } from './sessionHistory';
+
+// JSON, CSV and printable HTML exports of analysis sessions. All three are
+// generated in the browser; nothing is uploaded.
+
+// Bump when the exported JSON changes shape, and add a migration to
+// sessionImport.ts
+export const SESSION_EXPORT_SCHEMA_VERSION = 1;
+
+// A saved session, or the latest analysis when saving it to history failed
+export type ExportableSession = NewAnalysisSession & Partial<Pick<AnalysisSession, 'id'>>;
+
+export interface ExportedAudio {
+  type: string;
+  dataUrl: string;
+}
+
+export type ExportedSession = Omit<ExportableSession, 'audio'> & { audio: ExportedAudio };
+
+export interface SessionExportFile {
+  schemaVersion: number;
+  exportedAt: string;
+  sessions: ExportedSession[];
+}
+
+export type ExportFormat = 'json' | 'csv' | 'html';
+
+function blobToDataUrl(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error ?? new Error('Could not read the recording'));
+    reader.readAsDataURL(blob);
+  });
+}
+
+// The full records, with each recording inlined as a data URL
+export async function sessionsToJson(sessions: ExportableSession[]): Promise<SessionExportFile> {
+  return {
+    schemaVersion: SESSION_EXPORT_SCHEMA_VERSION,
+    exportedAt: new Date().toISOString(),
+    sessions: await Promise.all(
+      sessions.map(async ({ audio, ...session }) => ({
+        ...session,
+        audio: { type: audio.type, dataUrl: await blobToDataUrl(audio) },
+      }))
+    ),
+  };
+}
+
+export interface CsvColumn<T> {
+  header: string;
+  value: (row: T) => string | number | boolean | null | undefined;
+}
+
+const probabilityColumns = <T>(prefix: string, pick: (row: T) => Record<Emotion, number> | null) =>
+  CANONICAL_EMOTIONS.map((emotion): CsvColumn<T> => ({
+    header: `${prefix}_${emotion}`,
+    value: (row) => pick(row)?.[emotion],
+  }));
+
+// Predictions, per-emotion probabilities and the raw audio features of one
+// analysis; `pick` returns null for rows that have no results
+export function emotionDataColumns<T>(pick: (row: T) => EmotionData | null): CsvColumn<T>[] {
+  return [
+    { header: 'emotion', value: (row) => (pick(row) ? overallEmotion(pick(row)) : null) },
+    { header: 'facial_emotion', value: (row) => pick(row)?.facial },
+    { header: 'facial_confidence', value: (row) => pick(row)?.confidence.facial },
+    { header: 'facial_source', value: (row) => pick(row)?.source.facial },
+    { header: 'speech_emotion', value: (row) => pick(row)?.speech },
+    { header: 'speech_confidence', value: (row) => pick(row)?.confidence.speech },
+    { header: 'speech_source', value: (row) => pick(row)?.source.speech },
+    { header: 'fused_emotion', value: (row) => pick(row)?.fusion?.emotion },
+    { header: 'fused_confidence', value: (row) => pick(row)?.fusion?.confidence },
+    { header: 'fusion_strategy', value: (row) => pick(row)?.fusion?.strategy },
+    { header: 'fused_synthetic', value: (row) => pick(row)?.fusion?.synthetic },
+    ...probabilityColumns<T>('facial_p', (row) => pick(row)?.distribution.facial ?? null),
+    ...probabilityColumns<T>('speech_p', (row) => pick(row)?.distribution.speech ?? null),
+    ...probabilityColumns<T>('fused_p', (row) => pick(row)?.fusion?.distribution ?? null),
+    ...AUDIO_FEATURE_INFO.map((info): CsvColumn<T> => ({
+      header: `feature_${info.key}`,
+      value: (row) => pick(row)?.audioFeatures?.raw[info.key],
+    })),
+    { header: 'features_synthetic', value: (row) => pick(row)?.audioFeatures?.synthetic },
+  ];
+}
+
+const CSV_COLUMNS: CsvColumn<ExportableSession>[] = [
+  { header: 'id', value: (session) => session.id },
+  { header: 'uid', value: (session) => session.uid },
+  { header: 'created_at', value: (session) => session.createdAt },
+  { header: 'analyzed_at', value: (session) => session.analyzedAt },
+  ...emotionDataColumns<ExportableSession>((session) => session.emotionData),
+  { header: 'demo_mode', value: (session) => session.demoMode },
+  { header: 'notes', value: (session) => session.notes },
+];
+
+function csvField(value: string | number | boolean | null | undefined): string {
+  if (value === null || value === undefined) return '';
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// Missing values are left empty
+export function toCsv<T>(columns: CsvColumn<T>[], rows: T[]): string {
+  const lines = [
+    columns.map((column) => column.header),
+    ...rows.map((row) => columns.map((column) => csvField(column.value(row)))),
+  ];
+  return lines.map((line) => line.join(',')).join('\r\n') + '\r\n';
+}
+
+// One row per session: predictions, per-emotion probabilities and the raw
+// audio features
+export function sessionsToCsv(sessions: ExportableSession[]): string {
+  return toCsv(CSV_COLUMNS, sessions);
+}
+
+const escapeHtml = (value: string) =>
+  value.replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`);
+
+const formatPercent = (value: number | null | undefined) =>
+  value === null || value === undefined ? '–' : `${(value * 100).toFixed(1)}%`;
+
+const emotionLabel = (emotion: string | null) =>
+  emotion ? (EMOTION_CHART_CONFIG[emotion as Emotion]?.label ?? emotion) : '–';
+
+// Horizontal bar chart as inline SVG, so the report needs no scripts
+function distributionChart(title: string, distribution: Record<Emotion, number> | null): string {
+  if (!distribution) return '';
+  const rowHeight = 22;
+  const bars = CANONICAL_EMOTIONS.map((emotion, index) => {
+    const y = index * rowHeight;
+    const width = Math.max(0, Math.min(1, distribution[emotion])) * 200;
+    return `
+      <text x="0" y="${y + 15}" font-size="12">${emotionLabel(emotion)}</text>
+      <rect x="80" y="${y + 4}" width="200" height="14" fill="#e5e7eb" />
+      <rect x="80" y="${y + 4}" width="${width.toFixed(1)}" height="14" fill="${EMOTION_COLORS[emotion]}" />
+      <text x="288" y="${y + 15}" font-size="12">${formatPercent(distribution[emotion])}</text>`;
+  }).join('');
+  return `
+    <figure>
+      <figcaption>${escapeHtml(title)}</figcaption>
+      <svg width="340" height="${CANONICAL_EMOTIONS.length * rowHeight}" role="img">${bars}</svg>
+    </figure>`;
+}
+
+// `value` is in the displayed unit, as are the reference ranges
+const formatFeature = (info: AudioFeatureInfo, value: number) =>
+  `${value.toFixed(info.decimals)}${info.unit ? ` ${info.unit}` : ''}`;
+
+function featureTable(session: ExportableSession): string {
+  const features = session.emotionData.audioFeatures;
+  if (!features) return '<p class="muted">No audio features were extracted.</p>';
+  const rows = AUDIO_FEATURE_INFO.map((info, index) => {
+    const reference = info.reference
+      ? `${formatFeature(info, info.reference.min)} – ${formatFeature(info, info.reference.max)}`
+      : '–';
+    const scaled = features.scaled?.[index];
+    return `
+      <tr>
+        <td>${escapeHtml(info.label)}</td>
+        <td class="number">${formatFeature(info, features.raw[info.key] * info.scale)}</td>
+        <td class="number">${scaled === undefined ? '–' : scaled.toFixed(2)}</td>
+        <td>${reference}</td>
+      </tr>`;
+  }).join('');
+  return `
+    <table>
+      <thead><tr><th>Feature</th><th>Value</th><th>Standardised</th><th>Training range</th></tr></thead>
+      <tbody>${rows}</tbody>
+    </table>
+    ${features.synthetic ? '<p class="muted">Synthetic demo features; the recording could not be decoded.</p>' : ''}`;
+}
+
+function sessionSection(session: ExportableSession): string {
+  const { emotionData } = session;
+  const fusion = emotionData.fusion;
+  const strategy = fusion && FUSION_STRATEGIES.find((item) => item.id === fusion.strategy)?.label;
+  const demo = emotionData.source.facial === 'fallback' || emotionData.source.speech === 'fallback';
+  const prediction = (label: string, emotion: string | null, confidence: number | null, unavailable: string | null) => `
+    <tr>
+      <th>${label}</th>
+      <td>${unavailable ? `<span class="muted">Unavailable: ${escapeHtml(unavailable)}</span>` : escapeHtml(emotionLabel(emotion))}</td>
+      <td class="number">${formatPercent(confidence)}</td>
+    </tr>`;
+
+  return `
+    <section>
+      <h2>${escapeHtml(new Date(session.createdAt).toLocaleString())}</h2>
+      ${demo ? '<p class="warning">Contains synthetic demo data, not model output.</p>' : ''}
+      <div class="row">
+        <img src="${escapeHtml(emotionData.faceCrop?.image ?? session.thumbnail)}" alt="Analysed face" />
+        <table class="summary">
+          ${prediction('Face', emotionData.facial, emotionData.confidence.facial, emotionData.unavailable.facial)}
+          ${prediction('Voice', emotionData.speech, emotionData.confidence.speech, emotionData.unavailable.speech)}
+          ${fusion ? prediction(`Combined (${escapeHtml(strategy ?? fusion.strategy)}${fusion.synthetic ? ', demo data' : ''})`, fusion.emotion, fusion.confidence, null) : ''}
+        </table>
+      </div>
+      <div class="charts">
+        ${distributionChart('Facial expression', emotionData.distribution.facial)}
+        ${distributionChart('Speech', emotionData.distribution.speech)}
+        ${distributionChart('Combined', fusion?.distribution ?? null)}
+      </div>
+      <h3>Audio features</h3>
+      ${featureTable(session)}
+      <h3>Models</h3>
+      <ul>${session.models
+        .map((model) => `<li>${escapeHtml(model.name)}: ${escapeHtml(model.version)}${model.ready ? '' : ' (not loaded)'}</li>`)
+        .join('')}</ul>
+      ${session.notes ? `<h3>Notes</h3><p class="notes">${escapeHtml(session.notes)}</p>` : ''}
+    </section>`;
+}
+
+const REPORT_STYLES = `
+  body { font-family: system-ui, sans-serif; color: #111827; margin: 2rem auto; max-width: 52rem; padding: 0 1rem; }
+  h1 { margin-bottom: 0.25rem; }
+  section { border-top: 1px solid #d1d5db; padding-top: 1rem; margin-top: 1.5rem; break-inside: avoid; }
+  .row { display: flex; gap: 1.5rem; align-items: flex-start; }
+  .row img { width: 160px; height: 160px; object-fit: cover; border-radius: 0.5rem; }
+  .charts { display: flex; flex-wrap: wrap; gap: 1rem; }
+  figure { margin: 0.5rem 0; }
+  figcaption { font-weight: 600; margin-bottom: 0.25rem; }
+  table { border-collapse: collapse; }
+  th, td { text-align: left; padding: 0.25rem 0.75rem 0.25rem 0; font-size: 0.875rem; }
+  thead th { border-bottom: 1px solid #d1d5db; }
+  .number { text-align: right; font-variant-numeric: tabular-nums; }
+  .muted { color: #6b7280; }
+  .warning { color: #b45309; font-weight: 600; }
+  .notes { white-space: pre-wrap; }
+  @media print { .no-print { display: none; } body { margin: 0; } }
+`;
+
+// A standalone HTML page meant to be printed or saved as PDF from the browser
+export function sessionsToHtmlReport(sessions: ExportableSession[]): string {
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8" />
+  <title>Emotion analysis report</title>
+  <style>${REPORT_STYLES}</style>
+</head>
+<body>
+  <button class="no-print" onclick="window.print()">Print / Save as PDF</button>
+  <h1>Emotion analysis report</h1>
+  <p class="muted">${sessions.length} session(s), generated ${escapeHtml(new Date().toLocaleString())}</p>
+  ${sessions.map(sessionSection).join('')}
+</body>
+</html>
+`;
+}
+
+export const exportFilename = (format: ExportFormat, date = new Date()) =>
+  `emotion-sessions-${date.toISOString().replace(/[:.]/g, '-')}.${format}`;
@@ -0,0 +1,144 @@
+import { hashString } from './demoData';
+import type { EmotionData } from './emotionAnalysis';
+import { loadImageElement } from './imagePreprocessing';
+import { createDatabase, promisify, transact } from './indexedDb';
+import type { FacialKeypoint } from './modelLoader';
+import type { ModelEntry, ModelId, ModelOrigin } from './modelRegistry';
+
+// Every "Analyze Emotions" run, kept in IndexedDB so it survives a reload
+
+// The model that produced (or failed to produce) a session's results
+export interface SessionModelVersion {
+  id: ModelId;
+  name: string;
+  version: string;
+  origin: ModelOrigin;
+  ready: boolean;
+}
+
+export interface AnalysisSession {
+  // Local key; differs between browsers
+  id: number;
+  // Globally unique, so imported sessions can be told apart from local ones
+  uid: string;
+  createdAt: string;
+  // Last time the predictions were computed; differs from createdAt after a re-analysis
+  analyzedAt: string;
+  // Downscaled JPEG of the captured image, also used for re-analysis
+  thumbnail: string;
+  audio: Blob;
+  keypoints: FacialKeypoint[] | null;
+  emotionData: EmotionData;
+  models: SessionModelVersion[];
+  demoMode: boolean;
+  notes: string;
+}
+
+export type NewAnalysisSession = Omit<AnalysisSession, 'id'>;
+
+const DB_NAME = 'emotion-scribe-history';
+const DB_VERSION = 2;
+const SESSIONS = 'sessions';
+
+// Large enough for face localisation to work on the thumbnail
+const THUMBNAIL_SIZE = 480;
+
+export const createSessionUid = (): string =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 12)}`;
+
+// Sessions from before uids existed get one derived from their content, so
+// the same session gets the same uid in every browser and export
+const legacySessionUid = (createdAt: string, thumbnail: string): string => {
+  const content = `${createdAt}|${thumbnail}`;
+  return `legacy-${hashString(content, 1).toString(16)}${hashString(content, 2).toString(16)}`;
+};
+
+const openDatabase = createDatabase(DB_NAME, DB_VERSION, (db, oldVersion, transaction) => {
+  if (oldVersion < 1) {
+    db.createObjectStore(SESSIONS, { keyPath: 'id', autoIncrement: true }).createIndex('createdAt', 'createdAt');
+  }
+  if (oldVersion < 2) {
+    const store = transaction.objectStore(SESSIONS);
+    store.createIndex('uid', 'uid');
+    store.openCursor().onsuccess = (event) => {
+      const cursor = (event.target as IDBRequest<IDBCursorWithValue | null>).result;
+      if (!cursor) return;
+      const session = cursor.value as AnalysisSession;
+      cursor.update({ ...session, uid: legacySessionUid(session.createdAt, session.thumbnail) });
+      cursor.continue();
+    };
+  }
+});
+
+export async function createThumbnail(imageData: string, maxSize = THUMBNAIL_SIZE): Promise<string> {
+  const image = await loadImageElement(imageData);
+  const scale = Math.min(1, maxSize / Math.max(image.naturalWidth, image.naturalHeight));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(image.naturalWidth * scale);
+  canvas.height = Math.round(image.naturalHeight * scale);
+  canvas.getContext('2d')?.drawImage(image, 0, 0, canvas.width, canvas.height);
+  return canvas.toDataURL('image/jpeg', 0.85);
+}
+
+export const describeModels = (models: ModelEntry[]): SessionModelVersion[] =>
+  models.map(({ id, name, version, origin, status }) => ({ id, name, version, origin, ready: status === 'ready' }));
+
+export async function saveSession(session: NewAnalysisSession): Promise<AnalysisSession> {
+  const id = await transact(openDatabase, [SESSIONS], 'readwrite', (transaction) =>
+    promisify(transaction.objectStore(SESSIONS).add(session))
+  );
+  return { ...session, id: id as number };
+}
+
+// Newest first
+export async function listSessions(): Promise<AnalysisSession[]> {
+  const sessions = await transact(openDatabase, [SESSIONS], 'readonly', (transaction) =>
+    promisify(transaction.objectStore(SESSIONS).index('createdAt').getAll() as IDBRequest<AnalysisSession[]>)
+  );
+  return sessions.reverse();
+}
+
+export async function getSession(id: number): Promise<AnalysisSession | null> {
+  const session = await transact(openDatabase, [SESSIONS], 'readonly', (transaction) =>
+    promisify(transaction.objectStore(SESSIONS).get(id) as IDBRequest<AnalysisSession | undefined>)
+  );
+  return session ?? null;
+}
+
+export async function updateSession(
+  id: number,
+  changes: Partial<Omit<AnalysisSession, 'id' | 'createdAt'>>
+): Promise<AnalysisSession> {
+  return transact(openDatabase, [SESSIONS], 'readwrite', async (transaction) => {
+    const store = transaction.objectStore(SESSIONS);
+    const session = await promisify(store.get(id) as IDBRequest<AnalysisSession | undefined>);
+    if (!session) throw new Error(`Session ${id} does not exist`);
+    const updated = { ...session, ...changes };
+    store.put(updated);
+    return updated;
+  });
+}
+
+// Adds sessions whose uid is not in the history yet; resolves to the added ones
+export async function addSessions(sessions: NewAnalysisSession[]): Promise<AnalysisSession[]> {
+  return transact(openDatabase, [SESSIONS], 'readwrite', async (transaction) => {
+    const store = transaction.objectStore(SESSIONS);
+    const added: AnalysisSession[] = [];
+    const seen = new Set<string>();
+    for (const session of sessions) {
+      if (seen.has(session.uid) || (await promisify(store.index('uid').count(session.uid))) > 0) continue;
+      seen.add(session.uid);
+      const id = await promisify(store.add(session));
+      added.push({ ...session, id: id as number });
+    }
+    return added;
+  });
+}
+
+export async function deleteSession(id: number): Promise<void> {
+  await transact(openDatabase, [SESSIONS], 'readwrite', (transaction) => {
+    transaction.objectStore(SESSIONS).delete(id);
+  });
+}
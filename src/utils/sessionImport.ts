@@ -0,0 +1,268 @@
+import { z } from 'zod';
+import type { EmotionData } from './emotionAnalysis';
+import type { AnalysisFusion } from './emotionFusion';
+import { CANONICAL_EMOTIONS, Emotion } from './emotionLabels';
+import type { ModelId } from './modelRegistry';
+import { ExportedSession, SESSION_EXPORT_SCHEMA_VERSION } from './sessionExport';
+import { addSessions, NewAnalysisSession } from './sessionHistory';
+
+// Reads session bundles written by sessionExport.ts (possibly by another
+// browser or an older version of the app) into the local history.
+
+// The file as a whole cannot be imported
+export class SessionImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SessionImportError';
+  }
+}
+
+export interface RejectedSession {
+  // Position in the file's session list
+  index: number;
+  uid: string | null;
+  createdAt: string | null;
+  errors: string[];
+}
+
+export interface SessionImportReport {
+  schemaVersion: number;
+  total: number;
+  imported: number;
+  // Already in the history, or repeated within the file
+  duplicates: number;
+  rejected: RejectedSession[];
+}
+
+type RawRecord = Record<string, unknown>;
+
+// Each entry upgrades a record from the previous schema version to its own;
+// none yet, as version 1 is the first
+const MIGRATIONS: Record<number, (record: RawRecord) => RawRecord> = {};
+
+const MODEL_IDS = [
+  'facial-emotion',
+  'facial-keypoints',
+  'speech-preprocessing',
+  'speech-emotion-mlp',
+  'speech-emotion-xgb',
+] as const satisfies readonly ModelId[];
+
+// Fused distributions can overshoot 1 by rounding error
+const probability = z.number().min(0).max(1 + 1e-6);
+const finite = z.number().finite();
+const isoDate = z.string().datetime({ offset: true });
+const emotion = z.enum(CANONICAL_EMOTIONS);
+const modality = z.enum(['facial', 'speech']);
+const imageDataUrl = z.string().regex(/^data:image\/[\w.+-]+;base64,/, 'Expected an image data URL');
+
+const distribution = z.object(
+  Object.fromEntries(CANONICAL_EMOTIONS.map((name) => [name, probability])) as Record<Emotion, typeof probability>
+);
+
+const audioFeatures = z.object({
+  duration: finite,
+  pitch: finite,
+  speechRate: finite,
+  jitter: finite,
+  shimmer: finite,
+  mfccMean: finite,
+  sentimentScore: finite,
+});
+
+// Shapes list exactly the keys of the type they validate, so a field added to
+// the type fails to compile until the schema handles it
+type ShapeOf<T> = Record<keyof T, z.ZodTypeAny>;
+
+const perModality = <T extends z.ZodTypeAny>(schema: T) => z.object({ facial: schema, speech: schema });
+
+const unmappedLabel = z.object({ label: z.string(), probability });
+
+// A predicted label is a canonical emotion, or the model's own class when that
+// class has no equivalent, in which case it is listed in `unmapped` too
+const emotionData = z.object({
+  facial: z.string().nullable(),
+  speech: z.string().nullable(),
+  confidence: perModality(probability.nullable()),
+  source: perModality(z.enum(['model', 'fallback']).nullable()),
+  fallbackReason: perModality(z.string().nullable()),
+  unavailable: perModality(z.string().nullable()),
+  distribution: perModality(distribution.nullable()),
+  fusion: z
+    .object({
+      strategy: z.enum(['weightedAverage', 'productOfExperts', 'confidenceGated']),
+      emotion,
+      confidence: probability,
+      distribution,
+      weights: perModality(finite),
+      decidedBy: z.array(modality),
+      agreement: probability.nullable(),
+      sameTopEmotion: z.boolean().nullable(),
+      topEmotions: z.object({ facial: emotion.optional(), speech: emotion.optional() }),
+      synthetic: z.boolean(),
+    } satisfies ShapeOf<AnalysisFusion>)
+    .nullable(),
+  audioFeatures: z
+    .object({ raw: audioFeatures, scaled: z.array(finite).nullable(), synthetic: z.boolean() })
+    .nullable(),
+  speechEnsemble: z
+    .object({
+      weights: z.object({ mlp: finite, xgb: finite }),
+      mlp: z.array(probability).nullable(),
+      xgb: z.array(probability).nullable(),
+      fused: z.array(probability),
+    })
+    .nullable(),
+  faceCrop: z
+    .object({
+      method: z.enum(['keypoints', 'center']),
+      centerX: finite,
+      centerY: finite,
+      size: finite,
+      angle: finite,
+      sourceWidth: finite,
+      sourceHeight: finite,
+      image: imageDataUrl,
+    })
+    .nullable(),
+  unmapped: perModality(z.array(unmappedLabel)),
+} satisfies ShapeOf<EmotionData>).superRefine((data, context) => {
+  for (const name of modality.options) {
+    const label = data[name];
+    if (label === null || emotion.safeParse(label).success) continue;
+    if (data.unmapped[name].some((entry) => entry.label === label)) continue;
+    context.addIssue({ code: z.ZodIssueCode.custom, path: [name], message: `Unknown emotion "${label}"` });
+  }
+});
+
+const exportedSession = z.object({
+  // The exporting browser's key; a new one is assigned on import
+  id: z.number().optional(),
+  uid: z.string().min(1, 'Missing session uid'),
+  createdAt: isoDate,
+  analyzedAt: isoDate,
+  thumbnail: imageDataUrl,
+  audio: z.object({
+    type: z.string(),
+    // A session recorded without audio exports a bare "data:"
+    dataUrl: z.string().regex(/^data:([^,]*;base64,|$)/, 'Expected a base64 data URL'),
+  }),
+  keypoints: z.array(z.object({ name: z.string(), x: finite, y: finite })).nullable(),
+  emotionData,
+  models: z.array(
+    z.object({
+      id: z.enum(MODEL_IDS),
+      name: z.string(),
+      version: z.string(),
+      origin: z.enum(['bundled', 'uploaded']),
+      ready: z.boolean(),
+    })
+  ),
+  demoMode: z.boolean(),
+  notes: z.string(),
+} satisfies ShapeOf<ExportedSession>);
+
+// Compile-time check that every exported session passes the schema's types
+const schemaAcceptsExport = (session: ExportedSession): z.input<typeof exportedSession> => session;
+void schemaAcceptsExport;
+
+const bundle = z.object({
+  schemaVersion: z.number().int().min(1),
+  sessions: z.array(z.unknown()),
+});
+
+const formatIssue = (issue: z.ZodIssue) => (issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message);
+
+function dataUrlToBlob(dataUrl: string, type: string): Blob {
+  const comma = dataUrl.indexOf(',');
+  const binary = comma < 0 ? '' : atob(dataUrl.slice(comma + 1));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return new Blob([bytes], { type });
+}
+
+function migrate(record: RawRecord, fromVersion: number): RawRecord {
+  let migrated = record;
+  for (let version = fromVersion + 1; version <= SESSION_EXPORT_SCHEMA_VERSION; version++) {
+    migrated = MIGRATIONS[version]?.(migrated) ?? migrated;
+  }
+  return migrated;
+}
+
+// Validates one record, upgraded to the current schema, into a session ready to store
+function readSession(value: unknown, schemaVersion: number): NewAnalysisSession {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new Error('Not a session object');
+  }
+  const parsed = exportedSession.safeParse(migrate(value as RawRecord, schemaVersion));
+  if (!parsed.success) {
+    throw parsed.error;
+  }
+
+  // The exporting browser's id is dropped; the history assigns a new one
+  const { id, audio, ...session } = parsed.data as ExportedSession;
+  let blob: Blob;
+  try {
+    blob = dataUrlToBlob(audio.dataUrl, audio.type);
+  } catch {
+    throw new Error('audio.dataUrl: Not valid base64');
+  }
+  return { ...session, audio: blob };
+}
+
+const describeRecord = (value: unknown) => {
+  const record = value && typeof value === 'object' ? (value as RawRecord) : {};
+  return {
+    uid: typeof record.uid === 'string' ? record.uid : null,
+    createdAt: typeof record.createdAt === 'string' ? record.createdAt : null,
+  };
+};
+
+// Validates, migrates and deduplicates a parsed bundle, then adds the new
+// sessions to the history. Throws SessionImportError if the file as a whole is unusable.
+export async function importSessionBundle(json: unknown): Promise<SessionImportReport> {
+  const parsed = bundle.safeParse(json);
+  if (!parsed.success) {
+    throw new SessionImportError(
+      `Not an exported session file (${parsed.error.issues.map(formatIssue).join('; ')})`
+    );
+  }
+  const { schemaVersion, sessions } = parsed.data;
+  if (schemaVersion > SESSION_EXPORT_SCHEMA_VERSION) {
+    throw new SessionImportError(
+      `The file uses schema version ${schemaVersion}, but this app only reads up to version ${SESSION_EXPORT_SCHEMA_VERSION}. Update the app and try again.`
+    );
+  }
+
+  const valid: NewAnalysisSession[] = [];
+  const rejected: RejectedSession[] = [];
+  sessions.forEach((value, index) => {
+    try {
+      valid.push(readSession(value, schemaVersion));
+    } catch (error) {
+      const errors = error instanceof z.ZodError
+        ? error.issues.map(formatIssue)
+        : [error instanceof Error ? error.message : String(error)];
+      rejected.push({ index, ...describeRecord(value), errors });
+    }
+  });
+
+  const added = await addSessions(valid);
+  return {
+    schemaVersion,
+    total: sessions.length,
+    imported: added.length,
+    duplicates: valid.length - added.length,
+    rejected,
+  };
+}
+
+export async function importSessionFile(file: File): Promise<SessionImportReport> {
+  let json: unknown;
+  try {
+    json = JSON.parse(await file.text());
+  } catch (error) {
+    throw new SessionImportError(`${file.name} is not valid JSON: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  return importSessionBundle(json);
+}
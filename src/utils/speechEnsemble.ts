@@ -0,0 +1,45 @@
+// Weighted fusion of the speech MLP and XGBoost class probabilities.
+
+export interface SpeechEnsembleWeights {
+  mlp: number;
+  xgb: number;
+}
+
+// The split the models were validated with
+export const DEFAULT_SPEECH_ENSEMBLE_WEIGHTS: SpeechEnsembleWeights = { mlp: 0.3, xgb: 0.7 };
+
+export interface SpeechEnsembleResult {
+  // Weights actually applied, renormalised over the models that ran
+  weights: SpeechEnsembleWeights;
+  mlp: number[] | null;
+  xgb: number[] | null;
+  fused: number[];
+}
+
+export function combineSpeechPredictions(
+  mlp: number[] | null,
+  xgb: number[] | null,
+  weights: SpeechEnsembleWeights = DEFAULT_SPEECH_ENSEMBLE_WEIGHTS
+): SpeechEnsembleResult {
+  if (!mlp && !xgb) {
+    throw new Error('At least one speech model prediction is required');
+  }
+  if (mlp && xgb && mlp.length !== xgb.length) {
+    throw new Error(`Speech model outputs differ in size: MLP ${mlp.length}, XGBoost ${xgb.length}`);
+  }
+
+  const mlpWeight = mlp ? Math.max(0, weights.mlp) : 0;
+  const xgbWeight = xgb ? Math.max(0, weights.xgb) : 0;
+  const total = mlpWeight + xgbWeight;
+  // If the configured weights are all zero, fall back to an equal split
+  const applied: SpeechEnsembleWeights = total > 0
+    ? { mlp: mlpWeight / total, xgb: xgbWeight / total }
+    : { mlp: mlp ? (xgb ? 0.5 : 1) : 0, xgb: xgb ? (mlp ? 0.5 : 1) : 0 };
+
+  const size = (mlp ?? xgb).length;
+  const fused = Array.from({ length: size }, (_, i) =>
+    (mlp ? applied.mlp * mlp[i] : 0) + (xgb ? applied.xgb * xgb[i] : 0)
+  );
+
+  return { weights: applied, mlp, xgb, fused };
+}
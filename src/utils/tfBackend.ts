@@ -0,0 +1,29 @@
+// TensorFlow.js backends the app can run on. The selection itself happens in
+// the inference worker (see inferenceEngine.ts); this module only holds what
+// the UI needs to describe it.
+
+export type BackendName = 'webgl' | 'wasm' | 'cpu';
+
+// Tried in this order when no backend is preferred, or the preferred one fails
+export const BACKEND_ORDER: BackendName[] = ['webgl', 'wasm', 'cpu'];
+
+export const BACKEND_LABELS: Record<BackendName, string> = {
+  webgl: 'WebGL',
+  wasm: 'WebAssembly',
+  cpu: 'CPU',
+};
+
+export interface BackendState {
+  // Backend models currently run on; null until the worker has picked one
+  active: BackendName | null;
+  // User override, or null to pick automatically
+  preferred: BackendName | null;
+  // Why backends tried before the active one were skipped
+  failures: Partial<Record<BackendName, string>>;
+}
+
+export const INITIAL_BACKEND_STATE: BackendState = { active: null, preferred: null, failures: {} };
+
+export function isBackendName(value: unknown): value is BackendName {
+  return typeof value === 'string' && (BACKEND_ORDER as string[]).includes(value);
+}
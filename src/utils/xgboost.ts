@@ -0,0 +1,170 @@
+// Pure TypeScript evaluator for XGBoost models saved with `save_model("*.json")`.
+// Only numerical splits are supported; categorical trees are rejected at parse time.
+
+interface XGBoostTree {
+  left: Int32Array;
+  right: Int32Array;
+  splitIndex: Int32Array;
+  splitCondition: Float32Array;
+  defaultLeft: Uint8Array;
+  group: number;
+}
+
+export interface XGBoostModel {
+  trees: XGBoostTree[];
+  // Tree index boundaries of each boosting round
+  iterationIndptr: number[];
+  numFeatures: number;
+  numOutputs: number;
+  objective: string;
+  baseMargin: number;
+}
+
+interface XGBoostTreeJson {
+  left_children: number[];
+  right_children: number[];
+  split_indices: number[];
+  split_conditions: number[];
+  default_left: number[];
+  split_type?: number[];
+}
+
+interface XGBoostModelJson {
+  learner: {
+    learner_model_param: {
+      base_score: string;
+      num_class: string;
+      num_feature: string;
+      num_target?: string;
+    };
+    objective: { name: string };
+    gradient_booster: {
+      name: string;
+      model: {
+        trees: XGBoostTreeJson[];
+        tree_info: number[];
+        iteration_indptr?: number[];
+      };
+    };
+  };
+}
+
+export async function loadXGBoostModel(url: string): Promise<XGBoostModel> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Failed to fetch XGBoost model from ${url}: ${response.status}`);
+  }
+  return parseXGBoostModel(await response.json());
+}
+
+export function parseXGBoostModel(json: XGBoostModelJson): XGBoostModel {
+  const { learner } = json;
+  const booster = learner.gradient_booster;
+  if (booster.name !== 'gbtree') {
+    throw new Error(`Unsupported XGBoost booster: ${booster.name}`);
+  }
+
+  const params = learner.learner_model_param;
+  const objective = learner.objective.name;
+  const numClass = parseInt(params.num_class, 10) || 0;
+  const numTarget = parseInt(params.num_target ?? '1', 10) || 1;
+  const numOutputs = Math.max(numClass, numTarget, 1);
+
+  const trees = booster.model.trees.map((tree, index): XGBoostTree => {
+    if (tree.split_type?.some((type) => type !== 0)) {
+      throw new Error(`XGBoost tree ${index} uses categorical splits, which are not supported`);
+    }
+    return {
+      left: Int32Array.from(tree.left_children),
+      right: Int32Array.from(tree.right_children),
+      splitIndex: Int32Array.from(tree.split_indices),
+      splitCondition: Float32Array.from(tree.split_conditions),
+      defaultLeft: Uint8Array.from(tree.default_left),
+      group: booster.model.tree_info[index] ?? 0,
+    };
+  });
+
+  // Older models have no iteration_indptr; each round then holds one tree per output
+  const iterationIndptr = booster.model.iteration_indptr ?? [];
+  if (iterationIndptr.length === 0) {
+    for (let i = 0; i <= trees.length; i += numOutputs) iterationIndptr.push(i);
+  }
+
+  return {
+    trees,
+    iterationIndptr,
+    numFeatures: parseInt(params.num_feature, 10),
+    numOutputs,
+    objective,
+    baseMargin: probabilityToMargin(objective, parseBaseScore(params.base_score)),
+  };
+}
+
+// Raw margins (sum of leaf values plus base margin), one per output group.
+// `iterations` limits evaluation to the first N boosting rounds.
+export function predictXGBoostMargins(model: XGBoostModel, features: number[], iterations?: number): number[] {
+  if (features.length !== model.numFeatures) {
+    throw new Error(`XGBoost model expects ${model.numFeatures} features, got ${features.length}`);
+  }
+
+  const rounds = model.iterationIndptr.length - 1;
+  const lastTree = model.iterationIndptr[Math.min(iterations ?? rounds, rounds)];
+  const margins = new Array<number>(model.numOutputs).fill(model.baseMargin);
+
+  for (let t = 0; t < lastTree; t++) {
+    const tree = model.trees[t];
+    let node = 0;
+    while (tree.left[node] !== -1) {
+      const value = features[tree.splitIndex[node]];
+      if (value === undefined || Number.isNaN(value)) {
+        node = tree.defaultLeft[node] ? tree.left[node] : tree.right[node];
+      } else {
+        // XGBoost compares in float32, like the stored thresholds
+        node = Math.fround(value) < tree.splitCondition[node] ? tree.left[node] : tree.right[node];
+      }
+    }
+    // Leaf values are stored in split_conditions
+    margins[tree.group] += tree.splitCondition[node];
+  }
+
+  return margins;
+}
+
+// Class probabilities that sum to 1. Softmax objectives use the softmax of
+// the margins; one-vs-rest logistic outputs are normalised per-target sigmoids.
+export function predictXGBoostProbabilities(model: XGBoostModel, features: number[], iterations?: number): number[] {
+  const margins = predictXGBoostMargins(model, features, iterations);
+
+  if (model.objective === 'multi:softprob' || model.objective === 'multi:softmax') {
+    const max = Math.max(...margins);
+    const exps = margins.map((margin) => Math.exp(margin - max));
+    const sum = exps.reduce((a, b) => a + b, 0);
+    return exps.map((value) => value / sum);
+  }
+
+  const scores = isLogistic(model.objective) ? margins.map(sigmoid) : margins;
+  if (scores.length === 1) return [1 - scores[0], scores[0]];
+
+  const sum = scores.reduce((a, b) => a + b, 0);
+  return sum > 0 ? scores.map((score) => score / sum) : scores.map(() => 1 / scores.length);
+}
+
+function parseBaseScore(baseScore: string): number {
+  // XGBoost 3 stores base_score as a vector literal such as "[1.6E-1]"
+  return parseFloat(baseScore.replace(/[[\]]/g, ''));
+}
+
+function probabilityToMargin(objective: string, baseScore: number): number {
+  if (isLogistic(objective)) {
+    return Math.log(baseScore / (1 - baseScore));
+  }
+  return baseScore;
+}
+
+function isLogistic(objective: string): boolean {
+  return objective === 'binary:logistic' || objective === 'reg:logistic';
+}
+
+function sigmoid(x: number): number {
+  return 1 / (1 + Math.exp(-x));
+}
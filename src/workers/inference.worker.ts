@@ -0,0 +1,146 @@
+// Dedicated worker that owns every model and runs all inference, keeping
+// TensorFlow.js off the UI thread. Talk to it through inferenceClient.ts.
+import { computeAudioFeatures } from '@/utils/audioFeatures';
+import { benchmarkModels } from '@/utils/inferenceBenchmark';
+import {
+  getBackendState,
+  runFacialEmotion,
+  runFacialKeypoints,
+  runSpeechEmotion,
+  selectBackend,
+} from '@/utils/inferenceEngine';
+import { InferenceRequest, InferenceRequests, InferenceResponse } from '@/utils/inferenceProtocol';
+import { modelRegistry } from '@/utils/modelRegistry';
+import { listStoredModels } from '@/utils/modelStore';
+import {
+  activateModelVersion,
+  installUploadedModels,
+  removeModelVersion,
+  restoreBundledModel,
+  restorePinnedModels,
+} from '@/utils/modelUpload';
+import { BackendName, BackendState } from '@/utils/tfBackend';
+
+// The app is type-checked against the DOM lib, so describe the worker scope
+// by the two members used here
+const scope = self as unknown as Pick<Worker, 'postMessage' | 'onmessage'>;
+
+const post = (response: InferenceResponse) => scope.postMessage(response);
+
+const publishProgress = () => post({ type: 'progress', models: modelRegistry.getSnapshot() });
+
+const publishBackend = () => post({ type: 'backend', state: getBackendState() });
+
+modelRegistry.subscribe(publishProgress);
+publishProgress();
+
+// Pinned uploads take the place of the bundled models before anything loads
+const pinnedModelsReady = restorePinnedModels(modelRegistry).catch((error) => {
+  console.warn('Restoring stored models failed; using the bundled ones:', error);
+});
+
+// Settles once a backend has been picked; requests wait for it
+let backendReady: Promise<BackendState> | null = null;
+
+// A selection that failed is forgotten, so the next request tries again
+// instead of failing until the page is reloaded
+function trackBackend(selection: Promise<BackendState>): Promise<BackendState> {
+  backendReady = selection;
+  selection.catch(() => {
+    if (backendReady === selection) backendReady = null;
+  });
+  return selection;
+}
+
+const ensureBackend = () => backendReady ?? trackBackend(selectBackend(null).finally(publishBackend));
+
+// Weights live on the backend they were loaded with, so every model is
+// disposed and the ones that were ready are loaded (and warmed up) again
+async function switchBackend(preferred: BackendName | null): Promise<BackendState> {
+  const loaded = modelRegistry.getSnapshot().filter((entry) => entry.status === 'ready').map((entry) => entry.id);
+  modelRegistry.dispose();
+  try {
+    await selectBackend(preferred);
+  } finally {
+    publishBackend();
+  }
+  await Promise.all(loaded.map((id) => modelRegistry.tryLoad(id)));
+  return getBackendState();
+}
+
+// Switches run one after another, after any pending selection
+function queueBackendSwitch(preferred: BackendName | null): Promise<BackendState> {
+  const previous = backendReady ?? Promise.resolve(null);
+  return trackBackend(previous.catch(() => null).then(() => switchBackend(preferred)));
+}
+
+async function handle(request: InferenceRequest): Promise<InferenceRequests[InferenceRequest['type']]['result']> {
+  // Pure DSP; does not need TF.js or any model
+  if (request.type === 'extractAudioFeatures') {
+    return computeAudioFeatures(request.samples, request.sampleRate);
+  }
+
+  await pinnedModelsReady;
+  if (request.type === 'setBackend') {
+    return queueBackendSwitch(request.backend);
+  }
+  if (request.type === 'benchmark') {
+    const { active, failures } = await queueBackendSwitch(request.backend);
+    if (active !== request.backend) {
+      const error = failures[request.backend] ?? `The ${request.backend} backend is unavailable`;
+      return { backend: request.backend, iterations: request.iterations, error, models: [] };
+    }
+    const models = await benchmarkModels(request.iterations);
+    return { backend: request.backend, iterations: request.iterations, error: null, models };
+  }
+
+  await ensureBackend();
+  switch (request.type) {
+    case 'load':
+      if (request.modelId) {
+        await modelRegistry.tryLoad(request.modelId);
+        return modelRegistry.getSnapshot();
+      }
+      return modelRegistry.loadAll();
+    case 'dispose':
+      modelRegistry.dispose(request.modelId);
+      return modelRegistry.getSnapshot();
+    case 'installModels':
+      return installUploadedModels(modelRegistry, request.files, (progress) =>
+        post({ type: 'fileProgress', id: request.id, progress })
+      );
+    case 'restoreBundledModel':
+      await restoreBundledModel(modelRegistry, request.modelId);
+      return modelRegistry.getSnapshot();
+    case 'listStoredModels':
+      return listStoredModels();
+    case 'activateModelVersion':
+      await activateModelVersion(modelRegistry, request.versionId);
+      return listStoredModels();
+    case 'deleteModelVersion':
+      await removeModelVersion(modelRegistry, request.versionId);
+      return listStoredModels();
+    case 'predictFacialEmotion':
+      return runFacialEmotion(request.image);
+    case 'predictFacialKeypoints':
+      return runFacialKeypoints(request.image);
+    case 'predictSpeechEmotion':
+      return runSpeechEmotion(request.features, request.weights);
+  }
+}
+
+scope.onmessage = async (event: MessageEvent<InferenceRequest>) => {
+  const request = event.data;
+  try {
+    post({ type: 'result', id: request.id, result: await handle(request) });
+  } catch (error) {
+    console.error(`Inference worker ${request.type} request failed:`, error);
+    post({
+      type: 'error',
+      id: request.id,
+      error: error instanceof Error
+        ? { name: error.name, message: error.message }
+        : { name: 'Error', message: String(error) },
+    });
+  }
+};